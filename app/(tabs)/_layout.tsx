@@ -1,17 +1,29 @@
+import React from 'react';
 import { Tabs } from 'expo-router';
 import { Platform } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 
+import { useSettings } from '@/hooks/useSettings';
 import { useThemeColor } from '@/hooks/useThemeColor';
+import { canListUploads } from '@/services/serverProbe';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 
-type TabIconName = 'square.and.arrow.up' | 'list.bullet' | 'gear';
+type TabIconName = 'square.and.arrow.up' | 'list.bullet' | 'clock' | 'gear';
+
+const MATERIAL_ICONS: Record<TabIconName, React.ComponentProps<typeof MaterialIcons>['name']> = {
+  'square.and.arrow.up': 'upload',
+  'list.bullet': 'list',
+  'clock': 'history',
+  'gear': 'settings',
+};
 
 export default function TabLayout() {
   const tabBarBackground = useThemeColor(
     { light: '#ffffff', dark: '#000000' },
     'background'
   );
+  const { activeProfile } = useSettings();
+  const canList = canListUploads(activeProfile);
 
   return (
     <Tabs
@@ -36,11 +48,21 @@ export default function TabLayout() {
         name="index"
         options={{
           title: 'Uploads',
+          href: canList ? undefined : null,
           tabBarIcon: ({ color, size }) => (
             <TabIcon name="list.bullet" color={color} size={size} />
           ),
         }}
       />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: 'History',
+          tabBarIcon: ({ color, size }) => (
+            <TabIcon name="clock" color={color} size={size} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="settings"
         options={{
@@ -66,10 +88,9 @@ function TabIcon({ name, color, size }: { name: TabIconName; color: string; size
   }
 
   // For Android and web, use Material Icons
-  const materialIconName = name === 'square.and.arrow.up' ? 'upload' : name === 'list.bullet' ? 'list' : 'settings';
   return (
     <MaterialIcons
-      name={materialIconName}
+      name={MATERIAL_ICONS[name]}
       size={size}
       color={color}
     />
@@ -0,0 +1,371 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, Alert, ScrollView, Pressable, ActivityIndicator, RefreshControl, View, ToastAndroid, TextInput, Share, Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { fileNameFromUrl } from '@/services/paste';
+import { clearHistory, getHistory, removeHistoryEntry, searchHistory, type HistoryEntry, type HistoryUploadType } from '@/services/history';
+import { describeImageReport } from '@/services/imageProcessing';
+import { formatBytes } from '@/services/progress';
+
+const TYPE_ICONS: Record<HistoryUploadType, React.ComponentProps<typeof Ionicons>['name']> = {
+  text: 'text-outline',
+  file: 'document-outline',
+  url: 'cut-outline',
+  remote: 'cloud-download-outline',
+};
+
+// Shortened URLs point elsewhere, there is no paste to show for them
+const canView = (entry: HistoryEntry) => entry.success && !!entry.url && entry.type !== 'url';
+
+export default function HistoryScreen() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setEntries(await getHistory());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to load history: ${message}`);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  // Uploads happen on other screens and from the share sheet, so reload on every visit
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory])
+  );
+
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true);
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleCopy = useCallback(async (url: string) => {
+    try {
+      await Clipboard.setStringAsync(url);
+      ToastAndroid.show('URL copied to clipboard', ToastAndroid.SHORT);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to copy URL');
+    }
+  }, []);
+
+  const handleShare = useCallback(async (url: string) => {
+    try {
+      await Share.share({ message: url });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share URL');
+    }
+  }, []);
+
+  const handleView = useCallback((entry: HistoryEntry) => {
+    router.push({
+      pathname: '/paste/[file]',
+      params: { file: fileNameFromUrl(entry.url!), url: entry.url!, oneshot: entry.oneshot ? '1' : undefined },
+    });
+  }, []);
+
+  const handleRemove = useCallback(async (id: string) => {
+    try {
+      await removeHistoryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to remove history entry');
+    }
+  }, []);
+
+  const handleClear = useCallback(() => {
+    Alert.alert(
+      'Clear History',
+      'This only removes the local record. Files on the server are not deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clearHistory();
+              setEntries([]);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to clear history');
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const filteredEntries = useMemo(() => searchHistory(entries, query), [entries, query]);
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'History', headerLargeTitle: true }} />
+
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+          />
+        }
+      >
+        <View style={styles.searchRow}>
+          <TextInput
+            style={[styles.searchInput, { backgroundColor: inputBackground, color: textColor }]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search by name, URL or server"
+            placeholderTextColor="#888"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {entries.length > 0 && (
+            <Pressable onPress={handleClear} style={styles.clearButton}>
+              <Ionicons name="trash-outline" size={22} color={destructiveColor} />
+            </Pressable>
+          )}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" style={styles.loader} />
+        ) : filteredEntries.length === 0 ? (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor, alignItems: 'center', paddingVertical: 32 }]}>
+            <Ionicons name="time-outline" size={48} color={subtleTextColor} />
+            <ThemedText style={styles.emptyText}>{entries.length === 0 ? 'No uploads yet' : 'No matches'}</ThemedText>
+            <ThemedText style={{ color: subtleTextColor, textAlign: 'center' }}>
+              {entries.length === 0 ? 'Everything you upload from this device shows up here.' : 'Try a different search term.'}
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          filteredEntries.map((entry) => (
+            <ThemedView key={entry.id} style={[styles.card, { backgroundColor: cardColor }]}>
+              <Pressable
+                style={styles.titleRow}
+                disabled={!canView(entry)}
+                onPress={() => handleView(entry)}
+              >
+                <Ionicons name={TYPE_ICONS[entry.type]} size={24} color={entry.success ? primaryColor : destructiveColor} />
+                <ThemedText style={styles.title} numberOfLines={1} ellipsizeMode="middle">
+                  {entry.originalName || 'Untitled'}
+                </ThemedText>
+                {!entry.success && (
+                  <Ionicons name="alert-circle-outline" size={18} color={destructiveColor} />
+                )}
+                {canView(entry) && (
+                  <Ionicons name="chevron-forward" size={18} color={subtleTextColor} />
+                )}
+              </Pressable>
+
+              <ThemedText
+                style={[styles.resultText, { color: entry.success ? textColor : destructiveColor }]}
+                numberOfLines={2}
+                selectable
+              >
+                {entry.success ? entry.url : entry.errorMessage}
+              </ThemedText>
+
+              <View style={styles.infoContainer}>
+                <View style={styles.infoRow}>
+                  <Ionicons name="calendar-outline" size={16} color={subtleTextColor} />
+                  <ThemedText style={[styles.info, { color: subtleTextColor }]}>
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </ThemedText>
+                </View>
+                <View style={styles.infoRow}>
+                  <Ionicons name="server-outline" size={16} color={subtleTextColor} />
+                  <ThemedText style={[styles.info, { color: subtleTextColor }]} numberOfLines={1}>
+                    {entry.profileName}
+                  </ThemedText>
+                </View>
+                {entry.size !== null && (
+                  <View style={styles.infoRow}>
+                    <Ionicons name="document-outline" size={16} color={subtleTextColor} />
+                    <ThemedText style={[styles.info, { color: subtleTextColor }]}>
+                      {formatBytes(entry.size)}
+                    </ThemedText>
+                  </View>
+                )}
+                {entry.archiveContents && (
+                  <View style={styles.infoRow}>
+                    <Ionicons name="archive-outline" size={16} color={subtleTextColor} />
+                    <ThemedText style={[styles.info, { color: subtleTextColor }]} numberOfLines={3}>
+                      {`${entry.archiveContents.length} file${entry.archiveContents.length === 1 ? '' : 's'}: ${entry.archiveContents.join(', ')}`}
+                    </ThemedText>
+                  </View>
+                )}
+                {entry.imageReport && (
+                  <View style={styles.infoRow}>
+                    <Ionicons name="image-outline" size={16} color={subtleTextColor} />
+                    <ThemedText style={[styles.info, { color: subtleTextColor }]}>
+                      {describeImageReport(entry.imageReport)}
+                    </ThemedText>
+                  </View>
+                )}
+                <View style={styles.infoRow}>
+                  <Ionicons name={entry.oneshot ? 'flame-outline' : 'timer-outline'} size={16} color={subtleTextColor} />
+                  <ThemedText style={[styles.info, { color: subtleTextColor }]}>
+                    {entry.oneshot ? 'One-shot' : entry.expiry || 'Permanent'}
+                  </ThemedText>
+                </View>
+              </View>
+
+              <View style={[styles.buttonRow, { borderTopColor: separatorColor }]}>
+                {entry.url && (
+                  <>
+                    <Pressable
+                      style={({ pressed }) => [styles.button, { backgroundColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+                      onPress={() => handleCopy(entry.url!)}
+                    >
+                      <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
+                      <ThemedText style={styles.buttonText}>Copy</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [styles.button, { backgroundColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+                      onPress={() => handleShare(entry.url!)}
+                    >
+                      <Ionicons name="share-social-outline" size={18} color="#FFFFFF" />
+                      <ThemedText style={styles.buttonText}>Share</ThemedText>
+                    </Pressable>
+                  </>
+                )}
+                <Pressable
+                  style={({ pressed }) => [styles.button, { backgroundColor: destructiveColor, opacity: pressed ? 0.8 : 1 }]}
+                  onPress={() => handleRemove(entry.id)}
+                >
+                  <Ionicons name="close-outline" size={18} color="#FFFFFF" />
+                  <ThemedText style={styles.buttonText}>Remove</ThemedText>
+                </Pressable>
+              </View>
+            </ThemedView>
+          ))
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    paddingTop: Constants.statusBarHeight + 16,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  clearButton: {
+    padding: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 16,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+  },
+  resultText: {
+    fontSize: 14,
+  },
+  infoContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    paddingHorizontal: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  info: {
+    flexShrink: 1,
+    fontSize: 14,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingTop: 12,
+    marginTop: 4,
+    borderTopWidth: 1,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
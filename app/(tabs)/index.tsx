@@ -1,25 +1,51 @@
-import React, { useCallback, useEffect, useState } from 'react';
-import { StyleSheet, Alert, ScrollView, Pressable, ActivityIndicator, RefreshControl, View, ToastAndroid, Linking, Platform } from 'react-native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { StyleSheet, Alert, ScrollView, Pressable, ActivityIndicator, RefreshControl, View, ToastAndroid, Platform } from 'react-native';
 import Constants from 'expo-constants';
-import { MaterialIcons, Ionicons } from '@expo/vector-icons';
-import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Redirect, Stack, router } from 'expo-router';
 import * as Clipboard from 'expo-clipboard';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { UploadProgressBar } from '@/components/UploadProgressBar';
 import { useSettings } from '@/hooks/useSettings';
-import { listUploads, deleteFile } from '@/services/api';
+import type { UploadedFile } from '@/services/api';
+import { createClient } from '@/services/client';
+import { downloadFiles, getDownloadFolder, listFolder, type CollisionPolicy } from '@/services/download';
+import type { UploadProgress } from '@/services/progress';
+import { canDeleteUploads, canListUploads } from '@/services/serverProbe';
+import { buildFileUrl } from '@/services/serverUrl';
 import { useThemeColor } from '@/hooks/useThemeColor';
 
-interface Upload {
-  file_name: string;
-  file_size: number;
-  expires_at_utc: string | null;
-}
+type Upload = UploadedFile;
 
 type SortField = 'name' | 'size' | 'expiration';
 type SortDirection = 'asc' | 'desc';
 
+type DownloadState = {
+  fileNames: string[];
+  index: number;
+  progress: UploadProgress | null;
+};
+
+/** Asks how to handle names already in the download folder; null when dismissed. */
+const askCollisionPolicy = (collisions: string[]) =>
+  new Promise<CollisionPolicy | null>(resolve => {
+    Alert.alert(
+      'File Already Exists',
+      collisions.length === 1
+        ? `"${collisions[0]}" is already in the download folder.`
+        : `${collisions.length} of these files are already in the download folder.`,
+      [
+        { text: 'Skip', onPress: () => resolve('skip') },
+        { text: 'Replace', style: 'destructive', onPress: () => resolve('replace') },
+        { text: 'Keep Both', onPress: () => resolve('rename') },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+
 const sortUploads = (uploads: Upload[], field: SortField, direction: SortDirection): Upload[] => {
   const sortedUploads = [...uploads];
 
@@ -59,7 +85,10 @@ export default function ListScreen() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
-  const { settings, isLoading: settingsLoading } = useSettings();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [download, setDownload] = useState<DownloadState | null>(null);
+  const downloadController = useRef<AbortController | null>(null);
+  const { settings, activeProfile, isLoading: settingsLoading } = useSettings();
 
   const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
   const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
@@ -71,8 +100,9 @@ export default function ListScreen() {
 
   const loadUploads = useCallback(async () => {
     try {
-      const data = await listUploads(settings.serverUrl, settings.authToken);
+      const data = await createClient(activeProfile).listUploads();
       setUploads(data);
+      setSelected(prev => new Set(data.map(upload => upload.file_name).filter(fileName => prev.has(fileName))));
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       Alert.alert('Error', `Failed to load uploads: ${message}`);
@@ -80,7 +110,7 @@ export default function ListScreen() {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [settings]);
+  }, [activeProfile]);
 
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
@@ -89,7 +119,7 @@ export default function ListScreen() {
 
   const handleDelete = useCallback(async (fileName: string) => {
     try {
-      await deleteFile(fileName, settings.serverUrl, settings.deleteToken);
+      await createClient(activeProfile).deleteFile(fileName);
       // Refresh the list after successful deletion
 
       loadUploads();
@@ -98,24 +128,102 @@ export default function ListScreen() {
       const message = error instanceof Error ? error.message : 'Unknown error';
       Alert.alert('Error', `Failed to delete file: ${message}`);
     }
-  }, [settings, loadUploads]);
+  }, [activeProfile, loadUploads]);
+
+  const handleDownload = useCallback(async (fileNames: string[]) => {
+    try {
+      const folder = await getDownloadFolder();
+      if (!folder) {
+        return;
+      }
+
+      const existing = await listFolder(folder);
+      const collisions = fileNames.filter(fileName => existing.has(fileName));
+      const collisionPolicy = collisions.length > 0 ? await askCollisionPolicy(collisions) : 'rename';
+      if (!collisionPolicy) {
+        return;
+      }
+
+      const controller = new AbortController();
+      downloadController.current = controller;
+      setDownload({ fileNames, index: 0, progress: null });
+
+      const results = await downloadFiles(
+        fileNames.map(fileName => ({ fileName, url: buildFileUrl(activeProfile, fileName) })),
+        folder,
+        existing,
+        {
+          collisionPolicy,
+          signal: controller.signal,
+          onProgress: (index, progress) => setDownload({ fileNames, index, progress }),
+        }
+      );
+      setSelected(new Set());
+
+      const saved = results.filter(result => result.status === 'saved');
+      const failed = results.filter(result => result.status === 'failed');
+      if (failed.length > 0) {
+        Alert.alert(
+          'Download Failed',
+          failed.map(result => `${result.fileName}: ${result.error}`).join('\n')
+        );
+      } else if (controller.signal.aborted) {
+        ToastAndroid.show(`Download cancelled, ${saved.length} of ${fileNames.length} saved`, ToastAndroid.SHORT);
+      } else if (saved.length === 0) {
+        ToastAndroid.show('Nothing downloaded, existing files were kept', ToastAndroid.SHORT);
+      } else if (saved.length === 1 && saved[0].savedAs !== saved[0].fileName) {
+        ToastAndroid.show(`Saved as ${saved[0].savedAs}`, ToastAndroid.SHORT);
+      } else {
+        ToastAndroid.show(saved.length === 1 ? 'File downloaded' : `${saved.length} files downloaded`, ToastAndroid.SHORT);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to download: ${message}`);
+    } finally {
+      downloadController.current = null;
+      setDownload(null);
+    }
+  }, [activeProfile]);
+
+  const handleChooseFolder = useCallback(async () => {
+    try {
+      if (await getDownloadFolder(true)) {
+        ToastAndroid.show('Download folder updated', ToastAndroid.SHORT);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to choose a download folder');
+    }
+  }, []);
+
+  const toggleSelected = useCallback((fileName: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(fileName)) {
+        next.add(fileName);
+      }
+      return next;
+    });
+  }, []);
 
   const handleCopy = useCallback(async (fileName: string) => {
     try {
-      const url = `${settings.serverUrl}/${fileName}`;
+      const url = buildFileUrl(activeProfile, fileName);
       await Clipboard.setStringAsync(url);
       ToastAndroid.show('URL copied to clipboard', ToastAndroid.SHORT);
     } catch (error) {
       Alert.alert('Error', 'Failed to copy URL');
     }
-  }, [settings]);
+  }, [activeProfile]);
+
+  const canList = canListUploads(activeProfile);
+  const canDelete = canDeleteUploads(activeProfile);
 
   useEffect(() => {
-    if (settingsLoading) {
+    if (settingsLoading || !canList) {
       return;
     }
 
-    if (!settings.serverUrl || settings.serverUrl === '') {
+    if (!activeProfile.serverUrl || activeProfile.serverUrl === '') {
       Alert.alert(
         'Settings Required',
         'Please configure server URL first',
@@ -129,8 +237,9 @@ export default function ListScreen() {
       return;
     }
 
+    setIsLoading(true);
     loadUploads();
-  }, [loadUploads, settings, settingsLoading]);
+  }, [loadUploads, activeProfile, settingsLoading, canList]);
 
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
@@ -153,6 +262,11 @@ export default function ListScreen() {
     }
   };
 
+  // The tab is hidden for such servers, but this is still the initial route
+  if (!canList) {
+    return <Redirect href="/upload" />;
+  }
+
   return (
     <>
       <Stack.Screen
@@ -184,6 +298,49 @@ export default function ListScreen() {
           droidypaste
         </ThemedText>
 
+        {settings.profiles.length > 1 && (
+          <View style={styles.profileSwitcher}>
+            <ProfileSwitcher disabled={isLoading} />
+          </View>
+        )}
+
+        {download ? (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            <View style={styles.fileNameRow}>
+              <Ionicons name="download-outline" size={24} color={primaryColor} />
+              <ThemedText style={styles.fileName} numberOfLines={1} ellipsizeMode="middle">
+                {download.fileNames.length > 1 ? `${download.index + 1} of ${download.fileNames.length}: ` : ''}
+                {download.fileNames[download.index]}
+              </ThemedText>
+              <Pressable onPress={() => downloadController.current?.abort()} hitSlop={8}>
+                <Ionicons name="close-circle-outline" size={22} color={destructiveColor} />
+              </Pressable>
+            </View>
+            {download.progress ? (
+              <UploadProgressBar progress={download.progress} />
+            ) : (
+              <ActivityIndicator size="small" />
+            )}
+          </ThemedView>
+        ) : selected.size > 0 && (
+          <ThemedView style={[styles.card, styles.selectionBar, { backgroundColor: cardColor }]}>
+            <Pressable onPress={() => setSelected(new Set())} hitSlop={8}>
+              <Ionicons name="close" size={22} color={iconColor} />
+            </Pressable>
+            <ThemedText style={styles.fileName}>{selected.size} selected</ThemedText>
+            <Pressable onPress={handleChooseFolder} hitSlop={8}>
+              <Ionicons name="folder-open-outline" size={22} color={iconColor} />
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.selectionButton, { opacity: pressed ? 0.8 : 1 }]}
+              onPress={() => handleDownload([...selected])}
+            >
+              <Ionicons name="download-outline" size={18} color="#FFFFFF" />
+              <ThemedText style={styles.buttonText}>Download</ThemedText>
+            </Pressable>
+          </ThemedView>
+        )}
+
         {isLoading ? (
           <ActivityIndicator size="large" style={styles.loader} />
         ) : uploads.length === 0 ? (
@@ -224,17 +381,29 @@ export default function ListScreen() {
 
             {
               sortUploads(uploads, sortField, sortDirection).map((upload) => (
-                <ThemedView key={upload.file_name} style={[styles.card, { backgroundColor: cardColor }]}>
+                <ThemedView
+                  key={upload.file_name}
+                  style={[styles.card, { backgroundColor: cardColor }, selected.has(upload.file_name) && styles.cardSelected]}
+                >
                   <Pressable
-                    onPress={() => {
-                      const url = `${settings.serverUrl}/${upload.file_name}`;
-                      Linking.openURL(url);
-                    }}
+                    onPress={() => selected.size > 0
+                      ? toggleSelected(upload.file_name)
+                      : router.push({ pathname: '/paste/[file]', params: { file: upload.file_name } })}
+                    onLongPress={() => toggleSelected(upload.file_name)}
+                    disabled={download !== null}
                     style={styles.fileNameRow}
                   >
-                    <Ionicons name="document-outline" size={24} color={primaryColor} />
+                    {selected.size > 0 ? (
+                      <Ionicons
+                        name={selected.has(upload.file_name) ? 'checkbox' : 'square-outline'}
+                        size={24}
+                        color={primaryColor}
+                      />
+                    ) : (
+                      <Ionicons name="document-outline" size={24} color={primaryColor} />
+                    )}
                     <ThemedText style={styles.fileName} numberOfLines={1} ellipsizeMode="middle">{upload.file_name}</ThemedText>
-                    <MaterialIcons name="open-in-new" size={18} color={iconColor} />
+                    {selected.size === 0 && <Ionicons name="chevron-forward" size={18} color={iconColor} />}
                   </Pressable>
 
                   <View style={styles.fileInfoContainer}>
@@ -264,7 +433,19 @@ export default function ListScreen() {
                       <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
                       <ThemedText style={styles.buttonText}>Copy URL</ThemedText>
                     </Pressable>
-                    {settings.deleteToken !== '' && (
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.button,
+                        styles.iconButton,
+                        { backgroundColor: separatorColor, opacity: pressed || download ? 0.6 : 1 }
+                      ]}
+                      onPress={() => handleDownload([upload.file_name])}
+                      disabled={download !== null}
+                      accessibilityLabel="Download"
+                    >
+                      <Ionicons name="download-outline" size={20} color={iconColor} />
+                    </Pressable>
+                    {canDelete && (
                       <Pressable
                         style={({ pressed }) => [
                           styles.button,
@@ -331,6 +512,27 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  cardSelected: {
+    borderWidth: 2,
+    borderColor: '#A7C83F',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  selectionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    gap: 6,
+    backgroundColor: '#A7C83F',
+  },
+  profileSwitcher: {
+    marginBottom: 16,
+  },
   sortButtonsContainer: {
     flexDirection: 'row',
     marginBottom: 16,
@@ -393,6 +595,10 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     gap: 8,
   },
+  iconButton: {
+    flex: 0,
+    paddingHorizontal: 16,
+  },
   copyButton: {
     backgroundColor: '#A7C83F',
   },
@@ -1,53 +1,218 @@
-import React, { useCallback, useState } from 'react';
-import { StyleSheet, TextInput, ScrollView, Alert, Pressable, ToastAndroid, Platform, Linking } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { StyleSheet, TextInput, ScrollView, Alert, Pressable, Switch, ToastAndroid, Platform, Linking, ActivityIndicator } from 'react-native';
 import * as IntentLauncher from 'expo-intent-launcher';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { useSettings } from '@/hooks/useSettings';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { ImageProcessingPicker } from '@/components/ImageProcessingPicker';
+import { hasSameConnection, useSettings, type ServerCapabilities, type ServerScheme } from '@/hooks/useSettings';
 import { useThemeColor } from '@/hooks/useThemeColor';
+import { isValidServerUrl, sendsTokensInCleartext, splitServerUrl } from '@/services/serverUrl';
+import { describeCapabilities, probeServer } from '@/services/serverProbe';
+import { NAME_TEMPLATE_PLACEHOLDERS, resolveUploadFilename } from '@/services/filename';
+import { isValidImageProcessing } from '@/services/imageProcessing';
 import { Ionicons } from '@expo/vector-icons';
 import Constants from 'expo-constants';
 
 export default function SettingsScreen() {
-  const { settings, setServerUrl, setAuthToken, setDeleteToken, isLoading: settingsLoading } = useSettings();
-  const [tempServerUrl, setTempServerUrl] = useState(settings.serverUrl);
-  const [tempAuthToken, setTempAuthToken] = useState(settings.authToken);
-  const [tempDeleteToken, setTempDeleteToken] = useState(settings.deleteToken);
+  const { settings, activeProfile, addProfile, updateProfile, removeProfile, setReviewShares, isLoading: settingsLoading } = useSettings();
+  const [tempName, setTempName] = useState(activeProfile.name);
+  const [tempServerUrl, setTempServerUrl] = useState(splitServerUrl(activeProfile.serverUrl).address);
+  const [tempScheme, setTempScheme] = useState<ServerScheme>(activeProfile.scheme);
+  const [tempAuthToken, setTempAuthToken] = useState(activeProfile.authToken);
+  const [tempDeleteToken, setTempDeleteToken] = useState(activeProfile.deleteToken);
+  const [tempIdleTimeout, setTempIdleTimeout] = useState(String(activeProfile.timeouts.idleSeconds));
+  const [tempTotalTimeout, setTempTotalTimeout] = useState(String(activeProfile.timeouts.totalSeconds));
+  const [tempMinUploadSpeed, setTempMinUploadSpeed] = useState(String(activeProfile.timeouts.minUploadKBps));
+  const [tempNameTemplate, setTempNameTemplate] = useState(activeProfile.nameTemplate);
+  const [tempStripMetadata, setTempStripMetadata] = useState(activeProfile.stripMetadata);
+  const [tempImageProcessing, setTempImageProcessing] = useState(activeProfile.imageProcessing);
+  const [isTesting, setIsTesting] = useState(false);
+  // The last test run from this form, kept even when it did not reach the server
+  const [connectionTest, setConnectionTest] = useState<{
+    connection: Pick<typeof activeProfile, 'serverUrl' | 'scheme' | 'authToken' | 'deleteToken'>;
+    capabilities: ServerCapabilities | null;
+    error: string | null;
+  } | null>(null);
+
+  // Reload the form whenever another profile is selected or the stored one is loaded.
+  // Saving test results must not wipe edits that have not been saved yet.
+  useEffect(() => {
+    setTempName(activeProfile.name);
+    setTempServerUrl(splitServerUrl(activeProfile.serverUrl).address);
+    setTempScheme(activeProfile.scheme);
+    setTempAuthToken(activeProfile.authToken);
+    setTempDeleteToken(activeProfile.deleteToken);
+    setTempIdleTimeout(String(activeProfile.timeouts.idleSeconds));
+    setTempTotalTimeout(String(activeProfile.timeouts.totalSeconds));
+    setTempMinUploadSpeed(String(activeProfile.timeouts.minUploadKBps));
+    setTempNameTemplate(activeProfile.nameTemplate);
+    setTempStripMetadata(activeProfile.stripMetadata);
+    setTempImageProcessing(activeProfile.imageProcessing);
+    setConnectionTest(null);
+  }, [activeProfile.id, settingsLoading]);
 
   const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
   const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
   const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
   const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
   const primaryColor = '#A7C83F';
+  const warningColor = '#E38C19';
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+
+  const formConnection = useMemo(() => ({
+    serverUrl: tempServerUrl.trim(),
+    scheme: tempScheme,
+    authToken: tempAuthToken.trim(),
+    deleteToken: tempDeleteToken.trim(),
+  }), [tempServerUrl, tempScheme, tempAuthToken, tempDeleteToken]);
+  const isCleartext = sendsTokensInCleartext(formConnection);
+
+  // A pasted "http://..." or "https://..." picks the scheme instead of ending up in the address
+  const handleServerUrlChange = useCallback((text: string) => {
+    const { scheme, address } = splitServerUrl(text);
+    if (scheme) {
+      setTempScheme(scheme);
+    }
+    setTempServerUrl(scheme ? address : text);
+  }, []);
+
+  const validateServerUrl = useCallback(() => {
+    if (!tempServerUrl.trim()) {
+      Alert.alert('Error', 'Server URL cannot be empty');
+      return false;
+    }
+
+    // Basic URL validation
+    if (!isValidServerUrl({ serverUrl: tempServerUrl, scheme: tempScheme })) {
+      Alert.alert('Error', 'Invalid server URL format. Enter a host name such as paste.example.com, optionally followed by a path.');
+      return false;
+    }
+    return true;
+  }, [tempServerUrl, tempScheme]);
 
   const handleSaveSettings = useCallback(async () => {
     try {
-      if (!tempServerUrl.trim()) {
-        Alert.alert('Error', 'Server URL cannot be empty');
+      if (!validateServerUrl()) {
         return;
       }
 
-      // Basic URL validation
-      try {
-        new URL(tempServerUrl);
-      } catch (e) {
-        Alert.alert('Error', 'Invalid server URL format. Please include http:// or https://');
+      const timeouts = {
+        idleSeconds: Number(tempIdleTimeout),
+        totalSeconds: Number(tempTotalTimeout),
+        minUploadKBps: Number(tempMinUploadSpeed),
+      };
+      if (Object.values(timeouts).some(value => !Number.isFinite(value) || value <= 0)) {
+        Alert.alert('Error', 'Timeouts and upload speed must be positive numbers');
+        return;
+      }
+      if (!isValidImageProcessing(tempImageProcessing)) {
+        Alert.alert('Error', 'Image quality must be between 1 and 100');
         return;
       }
 
-      await Promise.all([
-        setServerUrl(tempServerUrl.trim()),
-        setAuthToken(tempAuthToken.trim()),
-        setDeleteToken(tempDeleteToken.trim()),
-      ]);
+      const saveProfile = async () => {
+        try {
+          // Results of a test run against exactly these settings carry over
+          const testedCapabilities =
+            connectionTest?.capabilities && hasSameConnection(connectionTest.connection, formConnection)
+              ? { capabilities: connectionTest.capabilities }
+              : {};
+          await updateProfile(activeProfile.id, {
+            name: tempName.trim() || 'Unnamed',
+            ...formConnection,
+            nameTemplate: tempNameTemplate.trim(),
+            stripMetadata: tempStripMetadata,
+            imageProcessing: tempImageProcessing,
+            timeouts,
+            ...testedCapabilities,
+          });
+
+          ToastAndroid.show('Settings saved successfully', ToastAndroid.SHORT);
+        } catch (error) {
+          Alert.alert('Error', 'Failed to save settings');
+          console.error(error);
+        }
+      };
+
+      if (isCleartext) {
+        Alert.alert(
+          'Unencrypted Connection',
+          'Your tokens will be sent over plain HTTP, where anyone on the same network can read them. Only use HTTP for servers on a network you trust.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Save Anyway', style: 'destructive', onPress: saveProfile },
+          ]
+        );
+        return;
+      }
 
-      ToastAndroid.show('Settings saved successfully', ToastAndroid.SHORT);
+      await saveProfile();
     } catch (error) {
       Alert.alert('Error', 'Failed to save settings');
       console.error(error);
     }
-  }, [tempServerUrl, tempAuthToken, tempDeleteToken, setServerUrl, setAuthToken, setDeleteToken]);
+  }, [tempName, formConnection, tempNameTemplate, tempStripMetadata, tempImageProcessing, tempIdleTimeout, tempTotalTimeout, tempMinUploadSpeed, isCleartext, connectionTest, validateServerUrl, activeProfile.id, updateProfile]);
+
+  const handleTestConnection = useCallback(async () => {
+    if (!validateServerUrl()) {
+      return;
+    }
+
+    setIsTesting(true);
+    const connection = formConnection;
+    try {
+      const capabilities = await probeServer({ ...activeProfile, ...connection });
+      setConnectionTest({ connection, capabilities, error: null });
+      // Untested edits stay unsaved, but results for the saved settings apply right away
+      if (hasSameConnection(connection, activeProfile)) {
+        await updateProfile(activeProfile.id, { capabilities });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setConnectionTest({ connection, capabilities: null, error: message });
+    } finally {
+      setIsTesting(false);
+    }
+  }, [formConnection, validateServerUrl, activeProfile, updateProfile]);
+
+  const testReport = connectionTest ?? (activeProfile.capabilities
+    ? { capabilities: activeProfile.capabilities, error: null }
+    : null);
+
+  const handleAddProfile = useCallback(async () => {
+    try {
+      await addProfile();
+      ToastAndroid.show('New server profile created', ToastAndroid.SHORT);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to create server profile');
+      console.error(error);
+    }
+  }, [addProfile]);
+
+  const handleRemoveProfile = useCallback(() => {
+    Alert.alert(
+      'Delete Profile',
+      `Are you sure you want to delete the "${activeProfile.name}" profile?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeProfile(activeProfile.id);
+              ToastAndroid.show('Server profile deleted', ToastAndroid.SHORT);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete server profile');
+              console.error(error);
+            }
+          },
+        },
+      ]
+    );
+  }, [activeProfile, removeProfile]);
 
   const renderSectionHeader = (title: string, icon: React.ComponentProps<typeof Ionicons>['name']) => (
     <ThemedView style={styles.sectionHeader}>
@@ -81,6 +246,92 @@ export default function SettingsScreen() {
     </ThemedView>
   );
 
+  const renderSchemeRow = () => (
+    <ThemedView style={styles.inputContainer}>
+      <Ionicons name="lock-closed-outline" size={20} color={subtleTextColor} style={styles.inputIcon} />
+      <ThemedText style={styles.numberLabel}>Protocol</ThemedText>
+      {(['https', 'http'] as const).map((scheme) => {
+        const isSelected = tempScheme === scheme;
+        return (
+          <Pressable
+            key={scheme}
+            style={[
+              styles.schemeOption,
+              { borderColor: isSelected ? primaryColor : separatorColor },
+              isSelected && { backgroundColor: primaryColor },
+            ]}
+            onPress={() => setTempScheme(scheme)}
+            disabled={settingsLoading}
+          >
+            <ThemedText style={[styles.schemeOptionText, { color: isSelected ? '#FFFFFF' : subtleTextColor }]}>
+              {scheme.toUpperCase()}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </ThemedView>
+  );
+
+  const renderTestReport = () => {
+    if (!testReport) {
+      return null;
+    }
+
+    if (testReport.error || !testReport.capabilities) {
+      return (
+        <ThemedView style={styles.reportRow}>
+          <Ionicons name="close-circle" size={20} color={warningColor} />
+          <ThemedView style={styles.reportText}>
+            <ThemedText style={styles.reportLabel}>Server unreachable</ThemedText>
+            <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>{testReport.error}</ThemedText>
+          </ThemedView>
+        </ThemedView>
+      );
+    }
+
+    return (
+      <>
+        {describeCapabilities(testReport.capabilities).map(({ label, ok, detail }) => (
+          <ThemedView key={label} style={styles.reportRow}>
+            <Ionicons
+              name={ok === null ? 'help-circle' : ok ? 'checkmark-circle' : 'close-circle'}
+              size={20}
+              color={ok === null ? subtleTextColor : ok ? primaryColor : warningColor}
+            />
+            <ThemedView style={styles.reportText}>
+              <ThemedText style={styles.reportLabel}>{label}</ThemedText>
+              <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>{detail}</ThemedText>
+            </ThemedView>
+          </ThemedView>
+        ))}
+        <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+          Checked {new Date(testReport.capabilities.checkedAt).toLocaleString()}. Features the server does not support are hidden.
+        </ThemedText>
+      </>
+    );
+  };
+
+  const renderNumberRow = (
+    label: string,
+    value: string,
+    setter: (text: string) => void,
+    unit: string,
+    icon: React.ComponentProps<typeof Ionicons>['name'],
+  ) => (
+    <ThemedView style={styles.inputContainer}>
+      <Ionicons name={icon} size={20} color={subtleTextColor} style={styles.inputIcon} />
+      <ThemedText style={styles.numberLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, styles.numberInput, { backgroundColor: inputBackground, color: textColor }]}
+        value={value}
+        onChangeText={setter}
+        keyboardType="numeric"
+        editable={!settingsLoading}
+      />
+      <ThemedText style={[styles.numberUnit, { color: subtleTextColor }]}>{unit}</ThemedText>
+    </ThemedView>
+  );
+
   return (
     <>
       <Stack.Screen options={{ title: 'Settings', headerLargeTitle: true }} />
@@ -89,12 +340,63 @@ export default function SettingsScreen() {
         contentContainerStyle={styles.contentContainer}
         keyboardShouldPersistTaps="handled"
       >
+        {/* Server Profiles Card */}
+        <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+          {renderSectionHeader('Server Profiles', 'albums-outline')}
+          <ProfileSwitcher disabled={settingsLoading} onAddProfile={handleAddProfile} />
+        </ThemedView>
+
         {/* Server Configuration Card */}
         <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
           {renderSectionHeader('Server Configuration', 'server-outline')}
-          {renderInputRow('Server URL', tempServerUrl, setTempServerUrl, 'https://paste.example.com', 'globe-outline')}
+          {renderInputRow('Profile Name', tempName, setTempName, 'e.g., Production', 'pricetag-outline')}
+          {renderSchemeRow()}
+          {renderInputRow('Server URL', tempServerUrl, handleServerUrlChange, 'paste.example.com', 'globe-outline')}
           {renderInputRow('Auth Token', tempAuthToken, setTempAuthToken, 'Auth Token', 'key-outline', true)}
           {renderInputRow('Delete Token', tempDeleteToken, setTempDeleteToken, 'Delete Token', 'trash-bin-outline', true)}
+          {isCleartext && (
+            <ThemedView style={styles.warningContainer}>
+              <Ionicons name="warning-outline" size={20} color={warningColor} />
+              <ThemedText style={[styles.hintText, styles.warningText, { color: warningColor }]}>
+                Plain HTTP sends your tokens unencrypted. Anyone on the same network can read them.
+              </ThemedText>
+            </ThemedView>
+          )}
+          <ThemedText style={[styles.subsectionTitle, { color: subtleTextColor }]}>File Names</ThemedText>
+          {renderInputRow('Naming Template', tempNameTemplate, setTempNameTemplate, 'e.g., {date}-{original}', 'text-outline')}
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            {tempNameTemplate.trim()
+              ? `A photo.jpg upload would be named ${resolveUploadFilename({ name: tempName.trim() || 'Unnamed', nameTemplate: tempNameTemplate }, 'photo.jpg', '', 'x7k2p9')}.`
+              : 'Leave empty to let the server name uploads.'}
+            {' '}Available: {NAME_TEMPLATE_PLACEHOLDERS.join(' ')}
+          </ThemedText>
+          <ThemedText style={[styles.subsectionTitle, { color: subtleTextColor }]}>Privacy</ThemedText>
+          <ThemedView style={styles.inputContainer}>
+            <Ionicons name="eye-off-outline" size={20} color={subtleTextColor} style={styles.inputIcon} />
+            <ThemedText style={styles.numberLabel}>Remove photo metadata</ThemedText>
+            <Switch
+              value={tempStripMetadata}
+              onValueChange={setTempStripMetadata}
+              trackColor={{ false: '#767577', true: primaryColor }}
+              thumbColor={tempStripMetadata ? '#FFFFFF' : '#f4f3f4'}
+              disabled={settingsLoading}
+            />
+          </ThemedView>
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            Strips EXIF and XMP data, such as GPS location, camera serial numbers and capture time, from JPEG, PNG and WebP images before they are uploaded. The image itself is not changed. Images over 32 MB are not uploaded while this is on.
+          </ThemedText>
+          <ThemedText style={[styles.subsectionTitle, { color: subtleTextColor }]}>Images</ThemedText>
+          <ImageProcessingPicker value={tempImageProcessing} onChange={setTempImageProcessing} editable={!settingsLoading} />
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            Saves data and server space by shrinking photos before upload. Can be changed for a single upload in Upload Options.
+          </ThemedText>
+          <ThemedText style={[styles.subsectionTitle, { color: subtleTextColor }]}>Timeouts</ThemedText>
+          {renderNumberRow('Idle timeout', tempIdleTimeout, setTempIdleTimeout, 's', 'hourglass-outline')}
+          {renderNumberRow('Request timeout', tempTotalTimeout, setTempTotalTimeout, 's', 'timer-outline')}
+          {renderNumberRow('Slowest upload speed', tempMinUploadSpeed, setTempMinUploadSpeed, 'KB/s', 'speedometer-outline')}
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            Uploads get extra time on top of the request timeout based on their size at the slowest upload speed.
+          </ThemedText>
           <Pressable
             style={({ pressed }) => [
               styles.saveButton,
@@ -106,6 +408,67 @@ export default function SettingsScreen() {
             <Ionicons name="save-outline" size={20} color="#FFFFFF" />
             <ThemedText style={styles.saveButtonText}>Save Settings</ThemedText>
           </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.saveButton,
+              styles.testButton,
+              { opacity: settingsLoading || isTesting || !tempServerUrl ? 0.6 : pressed ? 0.8 : 1 }
+            ]}
+            onPress={handleTestConnection}
+            disabled={settingsLoading || isTesting || !tempServerUrl}
+          >
+            {isTesting ? (
+              <ActivityIndicator size="small" color={primaryColor} />
+            ) : (
+              <Ionicons name="pulse-outline" size={20} color={primaryColor} />
+            )}
+            <ThemedText style={[styles.saveButtonText, styles.testButtonText]}>
+              {isTesting ? 'Testing...' : 'Test Connection'}
+            </ThemedText>
+          </Pressable>
+          {renderTestReport()}
+          {settings.profiles.length > 1 && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveButton,
+                styles.deleteButton,
+                { opacity: settingsLoading ? 0.6 : pressed ? 0.8 : 1 }
+              ]}
+              onPress={handleRemoveProfile}
+              disabled={settingsLoading}
+            >
+              <Ionicons name="trash-outline" size={20} color="#E38C19" />
+              <ThemedText style={[styles.saveButtonText, styles.deleteButtonText]}>Delete Profile</ThemedText>
+            </Pressable>
+          )}
+        </ThemedView>
+
+        {/* Sharing Card */}
+        <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+          {renderSectionHeader('Sharing', 'share-social-outline')}
+          <ThemedView style={styles.inputContainer}>
+            <Ionicons name="eye-outline" size={20} color={subtleTextColor} style={styles.inputIcon} />
+            <ThemedText style={styles.numberLabel}>Review before uploading</ThemedText>
+            <Switch
+              value={settings.reviewShares}
+              onValueChange={value => setReviewShares(value).catch(() => Alert.alert('Error', 'Failed to save setting'))}
+              trackColor={{ false: '#767577', true: primaryColor }}
+              thumbColor={settings.reviewShares ? '#FFFFFF' : '#f4f3f4'}
+              disabled={settingsLoading}
+            />
+          </ThemedView>
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            Content shared from other apps opens a preview where the server, expiry and name can be changed, instead of being uploaded right away.
+          </ThemedText>
+          <Pressable
+            style={({ pressed }) => [styles.saveButton, styles.testButton, { opacity: pressed ? 0.8 : 1 }]}
+            onPress={() => router.push('/share-rules')}
+          >
+            <Ionicons name="git-branch-outline" size={20} color={primaryColor} />
+            <ThemedText style={[styles.saveButtonText, styles.testButtonText]}>
+              {settings.shareRules.length > 0 ? `Share Rules (${settings.shareRules.length})` : 'Share Rules'}
+            </ThemedText>
+          </Pressable>
         </ThemedView>
 
         {/* About Card */}
@@ -182,6 +545,50 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     fontSize: 16,
   },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 8,
+  },
+  numberLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  numberInput: {
+    flex: 0,
+    minWidth: 80,
+    textAlign: 'right',
+  },
+  numberUnit: {
+    width: 40,
+    marginLeft: 8,
+    fontSize: 14,
+  },
+  hintText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  schemeOption: {
+    marginLeft: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  schemeOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  warningContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: 'transparent',
+  },
+  warningText: {
+    flex: 1,
+  },
   saveButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -196,4 +603,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  testButton: {
+    marginTop: 0,
+    backgroundColor: 'transparent',
+    borderWidth: 1.5,
+    borderColor: '#A7C83F',
+  },
+  testButtonText: {
+    color: '#A7C83F',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: 'transparent',
+  },
+  reportText: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  reportLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  deleteButton: {
+    marginTop: 0,
+    backgroundColor: 'transparent',
+    borderWidth: 1.5,
+    borderColor: '#E38C19',
+  },
+  deleteButtonText: {
+    color: '#E38C19',
+  },
 });
@@ -1,14 +1,27 @@
-import React, { useCallback, useState, useEffect } from 'react';
-import { StyleSheet, TextInput, Alert, ScrollView, Pressable, Switch, Platform, LayoutAnimation, UIManager, ToastAndroid } from 'react-native';
+import React, { useCallback, useState, useEffect, useRef } from 'react';
+import { StyleSheet, TextInput, Alert, ScrollView, Pressable, Switch, Platform, LayoutAnimation, UIManager, ToastAndroid, Image } from 'react-native';
 import * as IntentLauncher from 'expo-intent-launcher';
 import Constants from 'expo-constants';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { useSettings } from '@/hooks/useSettings';
-import { uploadText, shortenUrl, uploadFromRemoteUrl } from '@/services/api';
-import { pickAndUploadFile, pickAndUploadImage, ShareOptions } from '@/services/sharing';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { useBatchUpload } from '@/hooks/useBatchUpload';
+import { captureMedia, pickDocuments, pickImages, ShareOptions, type CaptureMode, type PickedFile } from '@/services/sharing';
+import { generateRandomToken, resolveUploadFilename } from '@/services/filename';
+import { UploadQueueList } from '@/components/UploadQueueList';
+import { ExpiryPicker } from '@/components/ExpiryPicker';
+import { ImageProcessingPicker } from '@/components/ImageProcessingPicker';
+import { isValidExpiry } from '@/services/expiry';
+import { discardClipboardContent, readClipboard, type ClipboardContent } from '@/services/clipboard';
+import { ARCHIVE_FORMATS, archiveFileName, withArchive, type ArchiveFormat } from '@/services/archive';
+import { IMAGE_OUTPUT_FORMATS, isProcessableImage, isValidImageProcessing, processedFileName, type ImageProcessingSettings } from '@/services/imageProcessing';
+import { UploadProgressBar } from '@/components/UploadProgressBar';
+import type { UploadProgress } from '@/services/progress';
+import { CancelledError } from '@/services/api';
 import { requestNotificationsPermission } from '@/services/notifications';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { useSharedValue, useAnimatedStyle, withTiming } from 'react-native-reanimated';
@@ -17,32 +30,69 @@ if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental
   UIManager.setLayoutAnimationEnabledExperimental(true);
 }
 
-type UploadType = 'text' | 'file' | 'image' | 'url' | 'remote';
+type UploadType = 'text' | 'file' | 'camera' | 'clipboard' | 'archive' | 'url' | 'remote';
 
 export default function UploadScreen() {
   const [text, setText] = useState('');
   const [url, setUrl] = useState('');
+  const [textFilename, setTextFilename] = useState('');
+  const [selectedFiles, setSelectedFiles] = useState<PickedFile[]>([]);
+  const [fileFilename, setFileFilename] = useState('');
+  const [bundleFiles, setBundleFiles] = useState(false);
+  const [archiveName, setArchiveName] = useState('');
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>('zip');
+  // Shown for confirmation first, as the clipboard may hold something private
+  const [clipboardContent, setClipboardContent] = useState<ClipboardContent | null>(null);
+  // Drawn once per upload so the previewed name is the one that gets sent
+  const [randomToken, setRandomToken] = useState(generateRandomToken);
   const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [isOptionsExpanded, setIsOptionsExpanded] = useState(false);
   const [tempOptionIsOnMessage, setTempOptionIsOnMessage] = useState(false);
-  const { settings, setExpiry, setIsOneShot } = useSettings();
+  const { settings, activeProfile, setExpiry, setIsOneShot, updateProfile } = useSettings();
+  const { queue, isOnline, submitUpload } = useUploadQueue();
+  const { startBatch } = useBatchUpload();
 
 
-  const [tempExpiry, setTempExpiry] = useState(settings.expiry);
-  const [tempIsOneShot, setTempIsOneShot] = useState(settings.isOneShot);
+  const [tempExpiry, setTempExpiry] = useState(activeProfile.expiry);
+  const [tempIsOneShot, setTempIsOneShot] = useState(activeProfile.isOneShot);
+  const [tempImageProcessing, setTempImageProcessing] = useState(activeProfile.imageProcessing);
+  // Deliberately not saved with the profile; only a queued upload keeps its passphrase, in SecureStore
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
 
   useEffect(() => {
-    setTempExpiry(settings.expiry);
-    console.log('settings.expiry changed:', settings.expiry);
-  }, [settings.expiry]);
+    setTempExpiry(activeProfile.expiry);
+    console.log('activeProfile.expiry changed:', activeProfile.expiry);
+  }, [activeProfile.id, activeProfile.expiry]);
 
   useEffect(() => {
-    setTempIsOneShot(settings.isOneShot);
-    console.log('settings.isOneShot changed:', settings.isOneShot);
-  }, [settings.isOneShot]);
+    setTempIsOneShot(activeProfile.isOneShot);
+    console.log('activeProfile.isOneShot changed:', activeProfile.isOneShot);
+  }, [activeProfile.id, activeProfile.isOneShot]);
+
+  useEffect(() => {
+    setTempImageProcessing(activeProfile.imageProcessing);
+  }, [activeProfile.id, activeProfile.imageProcessing]);
 
   // Check if temporary options differ from saved settings
-  const hasUnsavedChanges = tempExpiry !== settings.expiry || tempIsOneShot !== settings.isOneShot;
+  const imageProcessingChanged = (Object.keys(tempImageProcessing) as (keyof ImageProcessingSettings)[])
+    .some(key => tempImageProcessing[key] !== activeProfile.imageProcessing[key]);
+  const hasUnsavedChanges = tempExpiry !== activeProfile.expiry || tempIsOneShot !== activeProfile.isOneShot || imageProcessingChanged;
+  const expiryIsValid = isValidExpiry(tempExpiry);
+  const imageProcessingIsValid = isValidImageProcessing(tempImageProcessing);
+
+  // Pasted text is sent as text.txt, so that is its original name for templates
+  const textUploadName = resolveUploadFilename(activeProfile, 'text.txt', textFilename, randomToken);
+  // Several files go through the batch view, a single one is uploaded here
+  const selectedFile = selectedFiles.length === 1 ? selectedFiles[0] : null;
+  const fileUploadName = selectedFile
+    ? resolveUploadFilename(activeProfile, processedFileName(selectedFile.name, tempImageProcessing), fileFilename, randomToken)
+    : undefined;
+  const selectedImageSample = selectedFile?.width && selectedFile.height && isProcessableImage(selectedFile.name)
+    ? { width: selectedFile.width, height: selectedFile.height, size: selectedFile.size }
+    : undefined;
 
   const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
   const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
@@ -69,6 +119,9 @@ export default function UploadScreen() {
     try {
       await setExpiry(tempExpiry);
       await setIsOneShot(tempIsOneShot);
+      if (imageProcessingChanged) {
+        await updateProfile(activeProfile.id, { imageProcessing: tempImageProcessing });
+      }
       ToastAndroid.show('Upload options saved', ToastAndroid.SHORT);
       if (isOptionsExpanded) {
         toggleOptions();
@@ -77,12 +130,37 @@ export default function UploadScreen() {
       Alert.alert('Error', 'Failed to save upload options');
       console.error(error);
     }
-  }, [tempExpiry, tempIsOneShot, setExpiry, setIsOneShot, isOptionsExpanded, toggleOptions]);
+  }, [tempExpiry, tempIsOneShot, tempImageProcessing, imageProcessingChanged, activeProfile.id, setExpiry, setIsOneShot, updateProfile, isOptionsExpanded, toggleOptions]);
+
+  const handlePickFile = useCallback(async (source: 'document' | 'image') => {
+    try {
+      const files = source === 'document' ? await pickDocuments() : await pickImages();
+      // If user cancelled the picker, keep the current selection
+      if (files.length > 0) {
+        setSelectedFiles(files);
+        setFileFilename('');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', message);
+    }
+  }, []);
 
-  const handleUpload = useCallback(async (type: UploadType) => {
+  const handleUpload = useCallback(async (type: UploadType, capturedFile?: PickedFile) => {
     if (isUploading) return;
-    
+    if (!expiryIsValid) {
+      Alert.alert('Invalid Expiry', 'Fix the expiry in Upload Options before uploading.');
+      return;
+    }
+    if ((type === 'file' || type === 'camera' || type === 'clipboard') && !imageProcessingIsValid) {
+      Alert.alert('Invalid Image Quality', 'Fix the image quality in Upload Options before uploading.');
+      return;
+    }
+
     setIsUploading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const transfer = { signal: abortController.signal };
 
     try {
       // Request notifications permission first (but don't block on it)
@@ -91,6 +169,7 @@ export default function UploadScreen() {
       const options: ShareOptions = {
         expiry: tempExpiry.trim() || undefined,
         oneshot: tempIsOneShot || undefined,
+        encryption: encrypt && type !== 'url' && type !== 'remote' ? { passphrase: passphrase || undefined } : undefined,
       };
 
       let resultUrl: string | null = null;
@@ -101,23 +180,93 @@ export default function UploadScreen() {
             Alert.alert('Error', 'Please enter some text to upload.');
             return;
           }
-          resultUrl = await uploadText(text.trim(), settings.serverUrl, settings.authToken, options);
+          resultUrl = await submitUpload('text', text.trim(), activeProfile, { ...options, filename: textUploadName }, transfer);
           setText('');
+          setTextFilename('');
           break;
         case 'file':
-          resultUrl = await pickAndUploadFile(settings.serverUrl, settings.authToken, options);
-          // If user cancelled, resultUrl will be null - don't show error
+          if (!selectedFile) {
+            return;
+          }
+          resultUrl = await submitUpload(
+            'file',
+            selectedFile.uri,
+            activeProfile,
+            { ...options, filename: fileUploadName, imageProcessing: tempImageProcessing },
+            { ...transfer, onProgress: setProgress },
+          );
+          setSelectedFiles([]);
+          setFileFilename('');
           break;
-        case 'image':
-          resultUrl = await pickAndUploadImage(settings.serverUrl, settings.authToken, options);
-          // If user cancelled, resultUrl will be null - don't show error
+        case 'camera':
+          if (!capturedFile) {
+            return;
+          }
+          // Same pipeline as a picked image, named by the profile's template
+          resultUrl = await submitUpload(
+            'file',
+            capturedFile.uri,
+            activeProfile,
+            {
+              ...options,
+              filename: resolveUploadFilename(activeProfile, processedFileName(capturedFile.name, tempImageProcessing), '', randomToken),
+              imageProcessing: tempImageProcessing,
+            },
+            { ...transfer, onProgress: setProgress },
+          );
           break;
+        case 'clipboard': {
+          if (!clipboardContent) {
+            return;
+          }
+          const content = clipboardContent;
+          if (content.kind === 'url') {
+            resultUrl = await submitUpload('url', content.url, activeProfile, { ...options, encryption: undefined }, transfer);
+          } else if (content.kind === 'text') {
+            resultUrl = await submitUpload(
+              'text',
+              content.text,
+              activeProfile,
+              { ...options, filename: resolveUploadFilename(activeProfile, 'text.txt', '', randomToken) },
+              transfer,
+            );
+          } else {
+            resultUrl = await submitUpload(
+              'file',
+              content.uri,
+              activeProfile,
+              {
+                ...options,
+                filename: resolveUploadFilename(activeProfile, processedFileName(content.name, tempImageProcessing), '', randomToken),
+                imageProcessing: tempImageProcessing,
+              },
+              { ...transfer, onProgress: setProgress },
+            );
+          }
+          setClipboardContent(null);
+          discardClipboardContent(content).catch(error => console.error('Failed to delete clipboard image:', error));
+          break;
+        }
+        case 'archive': {
+          // Named once, as the default name includes the time
+          const name = archiveFileName(archiveName, archiveFormat);
+          resultUrl = await withArchive(selectedFiles, name, archiveFormat, (uri, contents) => submitUpload(
+            'file',
+            uri,
+            activeProfile,
+            { ...options, filename: name, archiveContents: contents },
+            { ...transfer, onProgress: setProgress },
+          ));
+          setSelectedFiles([]);
+          setArchiveName('');
+          break;
+        }
         case 'url':
           if (!url.trim()) {
             Alert.alert('Error', 'Please enter a URL to shorten.');
             return;
           }
-          resultUrl = await shortenUrl(url.trim(), settings.serverUrl, settings.authToken, options);
+          resultUrl = await submitUpload('url', url.trim(), activeProfile, options, transfer);
           setUrl('');
           break;
         case 'remote':
@@ -125,24 +274,121 @@ export default function UploadScreen() {
             Alert.alert('Error', 'Please enter a remote URL to upload.');
             return;
           }
-          resultUrl = await uploadFromRemoteUrl(url.trim(), settings.serverUrl, settings.authToken, options);
+          resultUrl = await submitUpload('remote', url.trim(), activeProfile, options, transfer);
           setUrl('');
           break;
       }
 
-      // resultUrl will be null if user cancelled file/image picker
+      // resultUrl will be null if the upload was queued for a later retry
       if (resultUrl) {
         console.log('Upload successful:', resultUrl);
+      } else {
+        ToastAndroid.show('Upload queued, it will be retried automatically', ToastAndroid.LONG);
       }
 
     } catch (error) {
+      if (error instanceof CancelledError) {
+        ToastAndroid.show('Upload cancelled', ToastAndroid.SHORT);
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       console.error('Upload error:', message);
       Alert.alert('Upload Error', message);
     } finally {
+      abortControllerRef.current = null;
       setIsUploading(false);
+      setProgress(null);
+      setRandomToken(generateRandomToken());
+    }
+  }, [text, url, selectedFile, selectedFiles, clipboardContent, archiveName, archiveFormat, textUploadName, fileUploadName, randomToken, isUploading, activeProfile, tempExpiry, expiryIsValid, tempIsOneShot, tempImageProcessing, imageProcessingIsValid, encrypt, passphrase, submitUpload]);
+
+  const handleCapture = useCallback(async (mode: CaptureMode) => {
+    // Checked before opening the camera so a shot is never thrown away
+    if (!expiryIsValid || !imageProcessingIsValid) {
+      Alert.alert('Invalid Options', 'Fix the expiry and image settings in Upload Options before uploading.');
+      return;
+    }
+
+    try {
+      const file = await captureMedia(mode);
+      if (file) {
+        await handleUpload('camera', file);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', message);
+    }
+  }, [expiryIsValid, imageProcessingIsValid, handleUpload]);
+
+  const handleReadClipboard = useCallback(async () => {
+    try {
+      const content = await readClipboard();
+      if (clipboardContent) {
+        discardClipboardContent(clipboardContent).catch(error => console.error('Failed to delete clipboard image:', error));
+      }
+      setClipboardContent(content);
+      if (!content) {
+        ToastAndroid.show('Clipboard is empty', ToastAndroid.SHORT);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to read clipboard: ${message}`);
+    }
+  }, [clipboardContent]);
+
+  const handleDiscardClipboard = useCallback(() => {
+    if (clipboardContent) {
+      discardClipboardContent(clipboardContent).catch(error => console.error('Failed to delete clipboard image:', error));
+    }
+    setClipboardContent(null);
+  }, [clipboardContent]);
+
+  const handleBatchUpload = useCallback(() => {
+    if (!expiryIsValid || !imageProcessingIsValid) {
+      Alert.alert('Invalid Options', 'Fix the expiry and image settings in Upload Options before uploading.');
+      return;
+    }
+
+    requestNotificationsPermission().catch(console.warn);
+    const options: ShareOptions = {
+      expiry: tempExpiry.trim() || undefined,
+      oneshot: tempIsOneShot || undefined,
+      encryption: encrypt ? { passphrase: passphrase || undefined } : undefined,
+      imageProcessing: tempImageProcessing,
+    };
+    if (!startBatch(selectedFiles, activeProfile, options)) {
+      Alert.alert('Batch Upload Running', 'Wait for the current batch upload to finish first.');
+      return;
     }
-  }, [text, url, isUploading, settings, tempExpiry, tempIsOneShot]);
+    setSelectedFiles([]);
+    router.push('/batch');
+  }, [selectedFiles, activeProfile, tempExpiry, expiryIsValid, tempIsOneShot, tempImageProcessing, imageProcessingIsValid, encrypt, passphrase, startBatch]);
+
+  const handleCancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const renderFilenameInput = (
+    value: string,
+    setter: (text: string) => void,
+    resolvedName: string | undefined,
+  ) => (
+    <ThemedView style={styles.filenameContainer}>
+      <TextInput
+        style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+        value={value}
+        onChangeText={setter}
+        placeholder="File name (optional)"
+        placeholderTextColor="#888"
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isUploading}
+      />
+      <ThemedText style={[styles.filenamePreview, { color: subtleTextColor }]} numberOfLines={1} ellipsizeMode="middle">
+        {resolvedName ? `Uploads as ${resolvedName}` : 'The server picks the name'}
+      </ThemedText>
+    </ThemedView>
+  );
 
   const renderSectionHeader = (title: string, icon: React.ComponentProps<typeof Ionicons>['name'], isCollapsible = false) => (
     <Pressable onPress={isCollapsible ? toggleOptions : undefined} style={styles.sectionHeader}>
@@ -164,6 +410,13 @@ export default function UploadScreen() {
         contentContainerStyle={styles.contentContainer}
         keyboardShouldPersistTaps="handled"
       >
+        {/* Server Profile Switcher */}
+        {settings.profiles.length > 1 && (
+          <ThemedView style={styles.profileSwitcher}>
+            <ProfileSwitcher disabled={isUploading} />
+          </ThemedView>
+        )}
+
         {/* Options Card */}
         <ThemedView style={[styles.card, { backgroundColor: cardColor, paddingBottom: isOptionsExpanded ? 16 : 8 }]}>
           {renderSectionHeader('Upload Options', 'options-outline', true)}
@@ -188,18 +441,53 @@ export default function UploadScreen() {
                   <Ionicons name="timer-outline" size={20} color={subtleTextColor} />
                   <ThemedText style={styles.optionLabel}>Expires in</ThemedText>
                 </ThemedView>
-                <TextInput
-                  style={[styles.expiryInput, { backgroundColor: inputBackground, color: textColor }]}
-                  value={tempExpiry}
-                  onChangeText={setTempExpiry}
-                  placeholder="e.g., 1h, 1d"
-                  placeholderTextColor="#888"
-                  editable={!isUploading}
-                />
               </ThemedView>
+              <ExpiryPicker value={tempExpiry} onChange={setTempExpiry} editable={!isUploading} />
               <Pressable onPress={() => IntentLauncher.startActivityAsync('android.intent.action.VIEW', { data: 'https://github.com/orhun/rustypaste?tab=readme-ov-file#expiration' })}>
                 <ThemedText style={styles.helpText}>Learn about expiration syntax</ThemedText>
               </Pressable>
+              <ThemedView style={[styles.separator, { backgroundColor: separatorColor }]} />
+              <ThemedView style={styles.optionRow}>
+                <ThemedView style={styles.optionLabelContainer}>
+                  <Ionicons name="lock-closed-outline" size={20} color={subtleTextColor} />
+                  <ThemedText style={styles.optionLabel}>Encrypt on Device</ThemedText>
+                </ThemedView>
+                <Switch
+                  value={encrypt}
+                  onValueChange={setEncrypt}
+                  trackColor={{ false: '#767577', true: primaryColor }}
+                  thumbColor={encrypt ? '#FFFFFF' : '#f4f3f4'}
+                  disabled={isUploading}
+                />
+              </ThemedView>
+              {encrypt && (
+                <ThemedView style={styles.filenameContainer}>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+                    value={passphrase}
+                    onChangeText={setPassphrase}
+                    placeholder="Passphrase (optional)"
+                    placeholderTextColor="#888"
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!isUploading}
+                  />
+                  <ThemedText style={[styles.filenamePreview, { color: subtleTextColor }]}>
+                    {passphrase
+                      ? 'The link alone is useless, recipients also need the passphrase.'
+                      : 'The key is added to the link, so anyone with the link can read the paste.'}
+                    {' '}The server only ever sees encrypted data. URLs are not encrypted.
+                  </ThemedText>
+                </ThemedView>
+              )}
+              <ThemedView style={[styles.separator, { backgroundColor: separatorColor }]} />
+              <ImageProcessingPicker
+                value={tempImageProcessing}
+                onChange={setTempImageProcessing}
+                editable={!isUploading}
+                sample={selectedImageSample}
+              />
               {hasUnsavedChanges && (
                 <ThemedView style={styles.warningMessage}>
                   <Ionicons name="information-circle-outline" size={16} color="#FF9500" />
@@ -212,12 +500,12 @@ export default function UploadScreen() {
                 style={({ pressed }) => [
                   styles.saveButton,
                   {
-                    opacity: !hasUnsavedChanges ? 0.5 : pressed ? 0.8 : 1,
+                    opacity: !hasUnsavedChanges || !expiryIsValid || !imageProcessingIsValid ? 0.5 : pressed ? 0.8 : 1,
                     marginTop: 16
                   }
                 ]}
                 onPress={handleSaveUploadOptions}
-                disabled={!hasUnsavedChanges}
+                disabled={!hasUnsavedChanges || !expiryIsValid || !imageProcessingIsValid}
               >
                 <ThemedText style={styles.saveButtonText}>Save Options</ThemedText>
               </Pressable>
@@ -237,6 +525,21 @@ export default function UploadScreen() {
                   {`Expiry: ${tempExpiry.trim() || 'Permanent'}`}
                 </ThemedText>
               </ThemedView>
+              {encrypt && (
+                <ThemedView style={styles.summaryItem}>
+                  <Ionicons name="lock-closed-outline" size={16} color={subtleTextColor} />
+                  <ThemedText style={[styles.summaryText, { color: subtleTextColor }]}>Encrypted</ThemedText>
+                </ThemedView>
+              )}
+              {tempImageProcessing.enabled && (
+                <ThemedView style={styles.summaryItem}>
+                  <Ionicons name="image-outline" size={16} color={subtleTextColor} />
+                  <ThemedText style={[styles.summaryText, { color: subtleTextColor }]}>
+                    {`Images: ${IMAGE_OUTPUT_FORMATS.find(format => format.value === tempImageProcessing.format)?.label}`
+                      + (tempImageProcessing.maxDimension ? `, max ${tempImageProcessing.maxDimension}px` : '')}
+                  </ThemedText>
+                </ThemedView>
+              )}
             </ThemedView>
           )}
         </ThemedView>
@@ -251,6 +554,33 @@ export default function UploadScreen() {
           </ThemedView>
         )}
 
+        {/* Upload Progress Card */}
+        {isUploading && (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            {renderSectionHeader('Uploading', 'cloud-upload-outline')}
+            {progress && <UploadProgressBar progress={progress} />}
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.cancelButton,
+                { opacity: pressed ? 0.8 : 1 }
+              ]}
+              onPress={handleCancelUpload}
+            >
+              <Ionicons name="close-circle-outline" size={20} color="#E38C19" />
+              <ThemedText style={[styles.buttonText, styles.cancelButtonText]}>Cancel Upload</ThemedText>
+            </Pressable>
+          </ThemedView>
+        )}
+
+        {/* Upload Queue Card */}
+        {queue.length > 0 && (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            {renderSectionHeader(`Pending Uploads (${queue.length})`, isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline')}
+            <UploadQueueList />
+          </ThemedView>
+        )}
+
         {/* Text Upload Card */}
         <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
           {renderSectionHeader('Paste Text', 'text-outline')}
@@ -263,6 +593,7 @@ export default function UploadScreen() {
             multiline
             editable={!isUploading}
           />
+          {renderFilenameInput(textFilename, setTextFilename, textUploadName)}
           <Pressable
             style={({ pressed }) => [
               styles.button, 
@@ -295,7 +626,7 @@ export default function UploadScreen() {
                 styles.secondaryButton, 
                 { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
               ]}
-              onPress={() => handleUpload('file')}
+              onPress={() => handlePickFile('document')}
               disabled={isUploading}
             >
               <Ionicons 
@@ -313,7 +644,7 @@ export default function UploadScreen() {
                 styles.secondaryButton, 
                 { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
               ]}
-              onPress={() => handleUpload('image')}
+              onPress={() => handlePickFile('image')}
               disabled={isUploading}
             >
               <Ionicons 
@@ -326,6 +657,224 @@ export default function UploadScreen() {
               </ThemedText>
             </Pressable>
           </ThemedView>
+          {selectedFiles.length > 0 && (
+            <>
+              {selectedFiles.map(file => (
+                <ThemedView key={file.uri} style={styles.selectedFileRow}>
+                  <Ionicons name="document-text-outline" size={20} color={subtleTextColor} />
+                  <ThemedText style={styles.selectedFileName} numberOfLines={1} ellipsizeMode="middle">
+                    {file.name}
+                  </ThemedText>
+                  <Pressable
+                    onPress={() => setSelectedFiles(files => files.filter(selected => selected !== file))}
+                    disabled={isUploading}
+                    hitSlop={8}
+                  >
+                    <Ionicons name="close-circle" size={20} color={subtleTextColor} />
+                  </Pressable>
+                </ThemedView>
+              ))}
+              {selectedFile && renderFilenameInput(fileFilename, setFileFilename, fileUploadName)}
+              {selectedFiles.length > 1 && (
+                <ThemedView style={styles.optionRow}>
+                  <ThemedView style={styles.optionLabelContainer}>
+                    <Ionicons name="archive-outline" size={20} color={subtleTextColor} />
+                    <ThemedText style={styles.optionLabel}>Bundle into one archive</ThemedText>
+                  </ThemedView>
+                  <Switch
+                    value={bundleFiles}
+                    onValueChange={setBundleFiles}
+                    trackColor={{ false: '#767577', true: primaryColor }}
+                    thumbColor={bundleFiles ? '#FFFFFF' : '#f4f3f4'}
+                    disabled={isUploading}
+                  />
+                </ThemedView>
+              )}
+              {selectedFiles.length > 1 && bundleFiles && (
+                <ThemedView style={styles.filenameContainer}>
+                  <ThemedView style={styles.chipRow}>
+                    {ARCHIVE_FORMATS.map(format => {
+                      const isActive = archiveFormat === format.value;
+                      return (
+                        <Pressable
+                          key={format.value}
+                          style={[
+                            styles.chip,
+                            { borderColor: isActive ? primaryColor : separatorColor },
+                            isActive && { backgroundColor: primaryColor },
+                          ]}
+                          onPress={() => setArchiveFormat(format.value)}
+                          disabled={isUploading}
+                        >
+                          <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>
+                            {format.label}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </ThemedView>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+                    value={archiveName}
+                    onChangeText={setArchiveName}
+                    placeholder="Archive name (optional)"
+                    placeholderTextColor="#888"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!isUploading}
+                  />
+                  <ThemedText style={[styles.filenamePreview, { color: subtleTextColor }]} numberOfLines={1} ellipsizeMode="middle">
+                    {`Uploads as ${archiveFileName(archiveName, archiveFormat)}`}
+                  </ThemedText>
+                </ThemedView>
+              )}
+              <Pressable
+                style={({ pressed }) => [
+                  styles.button,
+                  {
+                    backgroundColor: primaryColor,
+                    opacity: isUploading ? 0.6 : pressed ? 0.8 : 1
+                  }
+                ]}
+                onPress={() => (selectedFile ? handleUpload('file') : bundleFiles ? handleUpload('archive') : handleBatchUpload())}
+                disabled={isUploading}
+              >
+                <Ionicons
+                  name={isUploading ? "hourglass-outline" : "cloud-upload-outline"}
+                  size={20}
+                  color="#FFFFFF"
+                />
+                <ThemedText style={styles.buttonText}>
+                  {isUploading
+                    ? 'Uploading...'
+                    : selectedFile
+                      ? 'Upload File'
+                      : bundleFiles
+                        ? `Upload ${selectedFiles.length} Files as Archive`
+                        : `Upload ${selectedFiles.length} Files`}
+                </ThemedText>
+              </Pressable>
+            </>
+          )}
+        </ThemedView>
+
+        {/* Camera Card */}
+        <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+          {renderSectionHeader('Camera', 'camera-outline')}
+          <ThemedView style={styles.buttonRow}>
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.secondaryButton,
+                { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
+              ]}
+              onPress={() => handleCapture('photo')}
+              disabled={isUploading}
+            >
+              <Ionicons
+                name={isUploading ? "hourglass-outline" : "camera-outline"}
+                size={20}
+                color={primaryColor}
+              />
+              <ThemedText style={[styles.buttonText, styles.secondaryButtonText]}>
+                {isUploading ? 'Uploading...' : 'Take Photo'}
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.secondaryButton,
+                { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
+              ]}
+              onPress={() => handleCapture('video')}
+              disabled={isUploading}
+            >
+              <Ionicons
+                name={isUploading ? "hourglass-outline" : "videocam-outline"}
+                size={20}
+                color={primaryColor}
+              />
+              <ThemedText style={[styles.buttonText, styles.secondaryButtonText]}>
+                {isUploading ? 'Uploading...' : 'Record Video'}
+              </ThemedText>
+            </Pressable>
+          </ThemedView>
+        </ThemedView>
+
+        {/* Clipboard Card */}
+        <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+          {renderSectionHeader('Clipboard', 'clipboard-outline')}
+          {clipboardContent ? (
+            <>
+              <ThemedView style={[styles.clipboardPreview, { backgroundColor: inputBackground }]}>
+                {clipboardContent.kind === 'image' ? (
+                  <Image
+                    source={{ uri: clipboardContent.uri }}
+                    style={[styles.clipboardImage, { aspectRatio: clipboardContent.width / clipboardContent.height || 1 }]}
+                    resizeMode="contain"
+                  />
+                ) : (
+                  <ThemedText style={styles.clipboardText} numberOfLines={6}>
+                    {clipboardContent.kind === 'url' ? clipboardContent.url : clipboardContent.text}
+                  </ThemedText>
+                )}
+              </ThemedView>
+              <ThemedText style={[styles.filenamePreview, { color: subtleTextColor }]}>
+                {clipboardContent.kind === 'image'
+                  ? `Image, ${clipboardContent.width}×${clipboardContent.height}`
+                  : clipboardContent.kind === 'url'
+                    ? 'Link, will be shortened'
+                    : `Text, ${clipboardContent.text.length} characters`}
+              </ThemedText>
+              <ThemedView style={styles.buttonRow}>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.button,
+                    styles.secondaryButton,
+                    { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
+                  ]}
+                  onPress={handleDiscardClipboard}
+                  disabled={isUploading}
+                >
+                  <Ionicons name="trash-outline" size={20} color={primaryColor} />
+                  <ThemedText style={[styles.buttonText, styles.secondaryButtonText]}>Discard</ThemedText>
+                </Pressable>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.button,
+                    {
+                      backgroundColor: primaryColor,
+                      opacity: isUploading ? 0.6 : pressed ? 0.8 : 1
+                    }
+                  ]}
+                  onPress={() => handleUpload('clipboard')}
+                  disabled={isUploading}
+                >
+                  <Ionicons
+                    name={isUploading ? "hourglass-outline" : clipboardContent.kind === 'url' ? "cut-outline" : "cloud-upload-outline"}
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                  <ThemedText style={styles.buttonText}>
+                    {isUploading ? 'Uploading...' : clipboardContent.kind === 'url' ? 'Shorten' : 'Upload'}
+                  </ThemedText>
+                </Pressable>
+              </ThemedView>
+            </>
+          ) : (
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                styles.secondaryButton,
+                { opacity: isUploading ? 0.6 : pressed ? 0.8 : 1 }
+              ]}
+              onPress={handleReadClipboard}
+              disabled={isUploading}
+            >
+              <Ionicons name="clipboard-outline" size={20} color={primaryColor} />
+              <ThemedText style={[styles.buttonText, styles.secondaryButtonText]}>Paste from Clipboard</ThemedText>
+            </Pressable>
+          )}
         </ThemedView>
 
         {/* URL Card */}
@@ -412,6 +961,10 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  profileSwitcher: {
+    marginBottom: 16,
+    backgroundColor: 'transparent',
+  },
   sectionHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -445,18 +998,25 @@ const styles = StyleSheet.create({
     backgroundColor: 'transparent',
     fontSize: 16,
   },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   separator: {
     height: 1,
     width: '100%',
   },
-  expiryInput: {
-    height: 40,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    fontSize: 16,
-    minWidth: 120,
-    textAlign: 'right',
-  },
   helpText: {
     color: '#007AFF',
     textAlign: 'right',
@@ -473,8 +1033,10 @@ const styles = StyleSheet.create({
   },
   summaryContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     alignItems: 'center',
     justifyContent: 'space-between',
+    rowGap: 4,
     paddingTop: 8,
   },
   summaryItem: {
@@ -501,6 +1063,32 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  filenameContainer: {
+    gap: 6,
+  },
+  filenamePreview: {
+    fontSize: 13,
+  },
+  clipboardPreview: {
+    borderRadius: 8,
+    padding: 12,
+  },
+  clipboardText: {
+    fontSize: 14,
+  },
+  clipboardImage: {
+    width: '100%',
+    maxHeight: 200,
+  },
+  selectedFileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  selectedFileName: {
+    flex: 1,
+    fontSize: 16,
+  },
   button: {
     flex: 1,
     flexDirection: 'row',
@@ -523,6 +1111,15 @@ const styles = StyleSheet.create({
   secondaryButtonText: {
     color: '#A7C83F',
   },
+  cancelButton: {
+    flex: 0,
+    backgroundColor: 'transparent',
+    borderWidth: 1.5,
+    borderColor: '#E38C19',
+  },
+  cancelButtonText: {
+    color: '#E38C19',
+  },
   saveButton: {
     backgroundColor: '#A7C83F',
     padding: 12,
@@ -0,0 +1,6 @@
+import { parseDeepLink } from '@/services/deepLink';
+
+// Automation links are run by the root layout and have no screen of their own
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  return parseDeepLink(path) ? '/' : path;
+}
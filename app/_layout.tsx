@@ -1,25 +1,58 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { ToastAndroid } from 'react-native';
+import { Alert, Linking, ToastAndroid } from 'react-native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import * as Clipboard from 'expo-clipboard';
 import { useShareIntent } from 'expo-share-intent';
 
+import { BatchUploadProvider } from '@/hooks/useBatchUpload';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { SettingsProvider, useSettings } from '@/hooks/useSettings';
-import { shortenUrl, uploadFile, uploadText } from '@/services/api';
+import { ruleShareChoices, ShareReviewProvider, useShareReview } from '@/hooks/useShareReview';
+import { UploadQueueProvider, useUploadQueue } from '@/hooks/useUploadQueue';
+import { CancelledError } from '@/services/api';
+import { discardClipboardContent, readClipboard } from '@/services/clipboard';
+import {
+  buildCallbackUrl,
+  deepLinkOptions,
+  describeDeepLink,
+  isAllowedCallbackUrl,
+  parseDeepLink,
+  type DeepLinkRequest,
+} from '@/services/deepLink';
+import { resolveUploadFilename } from '@/services/filename';
 import { setupNotificationResponseHandler, requestNotificationsPermission } from '@/services/notifications';
+import { findShareRule, sharedLink } from '@/services/shareRules';
+import { handleShareIntentOnce, sharedContentFromIntent } from '@/services/sharing';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+const confirmDeepLink = (request: DeepLinkRequest, profileName: string) =>
+  new Promise<boolean>(resolve => {
+    Alert.alert(
+      'Upload Requested',
+      describeDeepLink(request, profileName),
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Upload', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) },
+    );
+  });
+
 function RootLayoutNav() {
   const colorScheme = useColorScheme();
-  const { settings, isLoading } = useSettings();
+  const { settings, activeProfile, isLoading } = useSettings();
+  const { submitUpload } = useUploadQueue();
+  const { reviewShare, sendShare } = useShareReview();
   const { hasShareIntent, shareIntent, resetShareIntent, error } = useShareIntent();
+  const deepLinkHandlerRef = useRef<(link: string) => Promise<void>>(async () => {});
+  const handledInitialLinkRef = useRef(false);
+  const processedShareIntentRef = useRef<typeof shareIntent | null>(null);
 
   // Initialize notification system
   useEffect(() => {
@@ -38,78 +71,176 @@ function RootLayoutNav() {
 
   // Handle shared content via share intent
   useEffect(() => {
-    const processShareIntent = async () => {
-      if (isLoading) {
-        // Wait until settings are loaded
+    if (isLoading || !hasShareIntent || !shareIntent) {
+      return;
+    }
+
+    const content = sharedContentFromIntent(shareIntent);
+    // The first matching rule decides, otherwise the review setting does
+    const rule = content ? findShareRule(settings.shareRules, content) : null;
+    const action = rule?.action ?? (settings.reviewShares ? 'review' : 'upload');
+    const choices = ruleShareChoices(rule, settings.profiles, activeProfile);
+    if (content && (action === 'upload' || action === 'shorten') && !choices.profile.serverUrl) {
+      // Kept pending; it is picked up again once a server is configured
+      console.warn('Server URL not configured. Cannot upload shared content.');
+      return;
+    }
+
+    // Settings changes and new callbacks re-run this effect, but never handle an intent twice
+    handleShareIntentOnce(shareIntent, processedShareIntentRef, async () => {
+      if (!content) {
         return;
       }
+      if (rule) {
+        console.log(`Share rule "${rule.name}" matched:`, action);
+      }
 
-      if (!settings.serverUrl) {
-        console.warn('Server URL not configured. Cannot upload shared content.');
-        return;
+      if (action === 'reject') {
+        ToastAndroid.show(rule?.name ? `Blocked by share rule "${rule.name}"` : 'Blocked by a share rule', ToastAndroid.LONG);
+      } else if (action === 'review') {
+        reviewShare(content, choices);
+      } else {
+        // Shortening only applies to a single link, anything else is uploaded as usual
+        const link = action === 'shorten' ? sharedLink(content) : null;
+        await sendShare(link ? { kind: 'url', url: link } : content, choices);
       }
+    }, () => {
+      resetShareIntent();
+      console.log('Intent cleanup complete');
+    }).catch(error => {
+      if (error instanceof CancelledError) {
+        // Cancelled from the progress notification; drop the rest of the share
+        console.log('Shared upload cancelled');
+      } else {
+        console.error('Error handling shared content:', error);
+      }
+    });
+  }, [
+    isLoading,
+    hasShareIntent,
+    shareIntent,
+    settings.shareRules,
+    settings.reviewShares,
+    settings.profiles,
+    activeProfile,
+    reviewShare,
+    sendShare,
+    resetShareIntent,
+  ]);
+
+  // Rebuilt every render so links always use the current profile
+  deepLinkHandlerRef.current = async (link: string) => {
+    const request = parseDeepLink(link);
+    if (!request) {
+      return;
+    }
+    // Any app or web page can open these links, so never send a result to a web page
+    if ([request.successUrl, request.errorUrl].some(callback => callback && !isAllowedCallbackUrl(callback))) {
+      console.warn('Ignoring deep link with a web callback:', link);
+      ToastAndroid.show('Ignored an upload request that reports to a web page', ToastAndroid.LONG);
+      return;
+    }
 
-      if (hasShareIntent && shareIntent) {
-        // console.log('Processing share intent:', hasShareIntent, shareIntent, error);
-
-        try {
-          const options = {
-            expiry: settings.expiry,
-            oneshot: settings.isOneShot,
-          };
-          // Handle different types of shared content
-          if (shareIntent.files && shareIntent.files.length > 0) {
-            // Handle all files
-            for (const file of shareIntent.files) {
-              const { path } = file;
-              // Handle as generic file
-              console.log('Uploading shared file:', path);
-              const url = await uploadFile(
-                path,
-                settings.serverUrl,
-                settings.authToken,
-                options
-              );
-              console.log('File uploaded successfully:', url);
+    try {
+      if (!activeProfile.serverUrl) {
+        throw new Error('Server URL not configured');
+      }
+      const options = deepLinkOptions(request, { expiry: activeProfile.expiry, oneshot: activeProfile.isOneShot });
+      if (!(await confirmDeepLink(request, activeProfile.name))) {
+        throw new Error('Upload declined');
+      }
+      let url: string | null = null;
+
+      switch (request.action) {
+        case 'upload/text': {
+          const text = request.params.text;
+          if (!text?.trim()) {
+            throw new Error('The text parameter is required');
+          }
+          const filename = resolveUploadFilename(activeProfile, 'text.txt', options.filename);
+          url = await submitUpload('text', text, activeProfile, { ...options, filename });
+          break;
+        }
+        case 'shorten': {
+          const target = request.params.url?.trim();
+          if (!target) {
+            throw new Error('The url parameter is required');
+          }
+          url = await submitUpload('url', target, activeProfile, { ...options, filename: undefined });
+          break;
+        }
+        case 'upload/clipboard': {
+          const content = await readClipboard();
+          if (!content) {
+            throw new Error('Clipboard is empty');
+          }
+          try {
+            if (content.kind === 'url') {
+              url = await submitUpload('url', content.url, activeProfile, { ...options, filename: undefined });
+            } else if (content.kind === 'text') {
+              const filename = resolveUploadFilename(activeProfile, 'text.txt', options.filename);
+              url = await submitUpload('text', content.text, activeProfile, { ...options, filename });
+            } else {
+              const filename = resolveUploadFilename(activeProfile, content.name, options.filename);
+              url = await submitUpload('file', content.uri, activeProfile, { ...options, filename });
             }
-          } else if (shareIntent.type === 'text' && shareIntent.text) {
-            // Handle text content
-            console.log('Uploading shared text');
-            const url: any = await uploadText(
-              shareIntent.text,
-              settings.serverUrl,
-              settings.authToken,
-              options
-            );
-            console.log('Text uploaded successfully:', url);
-          } else if (shareIntent.webUrl) {
-            // Handle web URL - shorten it
-            console.log('Shortening shared URL:', shareIntent.webUrl);
-            const shortenedUrl: any = await shortenUrl(
-              shareIntent.webUrl,
-              settings.serverUrl,
-              settings.authToken,
-              options
-            );
-            console.log('URL shortened successfully:', shortenedUrl);
+          } finally {
+            discardClipboardContent(content).catch(error => console.error('Failed to delete clipboard image:', error));
           }
+          break;
+        }
+      }
 
-          // Reset the share intent after processing
-          resetShareIntent();
-          console.log('Intent cleanup complete');
-        } catch (error) {
-          console.error('Error handling shared content:', error);
+      // A queued upload has no URL to report yet, but it will still be sent
+      if (!url) {
+        console.log('Deep link upload queued');
+        if (request.successUrl) {
+          await Linking.openURL(buildCallbackUrl(request.successUrl, { queued: '1' }));
+        } else {
+          ToastAndroid.show('Upload queued, it will be sent once the server is reachable', ToastAndroid.LONG);
         }
+        return;
       }
-    };
+      console.log('Deep link upload successful:', url);
+      if (request.successUrl) {
+        await Linking.openURL(buildCallbackUrl(request.successUrl, { url }));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Deep link upload failed:', message);
+      if (request.errorUrl) {
+        Linking.openURL(buildCallbackUrl(request.errorUrl, { errorMessage: message }))
+          .catch(callbackError => console.error('Failed to open x-error callback:', callbackError));
+      } else {
+        ToastAndroid.show(`Upload failed: ${message}`, ToastAndroid.LONG);
+      }
+    }
+  };
 
-    processShareIntent();
-  }, [hasShareIntent, shareIntent, settings.serverUrl, settings.authToken, isLoading, resetShareIntent]);
+  // Handle droidypaste:// automation links once settings are loaded
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+
+    if (!handledInitialLinkRef.current) {
+      handledInitialLinkRef.current = true;
+      Linking.getInitialURL()
+        .then(link => (link ? deepLinkHandlerRef.current(link) : undefined))
+        .catch(error => console.error('Failed to read initial link:', error));
+    }
+    const subscription = Linking.addEventListener('url', ({ url }) => deepLinkHandlerRef.current(url));
+    return () => subscription.remove();
+  }, [isLoading]);
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="paste/[file]" options={{ title: 'Paste' }} />
+        <Stack.Screen name="batch" options={{ title: 'Batch Upload' }} />
+        <Stack.Screen name="share-review" options={{ title: 'Review Share', presentation: 'modal' }} />
+        <Stack.Screen name="share-rules" options={{ title: 'Share Rules' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar
@@ -138,7 +269,13 @@ export default function RootLayout() {
 
   return (
     <SettingsProvider>
-      <RootLayoutNav />
+      <UploadQueueProvider>
+        <BatchUploadProvider>
+          <ShareReviewProvider>
+            <RootLayoutNav />
+          </ShareReviewProvider>
+        </BatchUploadProvider>
+      </UploadQueueProvider>
     </SettingsProvider>
   );
 }
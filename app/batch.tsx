@@ -0,0 +1,287 @@
+import React, { useCallback } from 'react';
+import { Alert, Platform, Pressable, ScrollView, StyleSheet, ToastAndroid, View } from 'react-native';
+import { Stack, router } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { UploadProgressBar } from '@/components/UploadProgressBar';
+import { useBatchUpload } from '@/hooks/useBatchUpload';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import {
+  describeBatch,
+  formatUrlList,
+  isRetryable,
+  URL_LIST_FORMATS,
+  type BatchItem,
+  type BatchItemStatus,
+} from '@/services/batch';
+import { formatBytes } from '@/services/progress';
+
+const STATUS_ICONS: Record<BatchItemStatus, React.ComponentProps<typeof Ionicons>['name']> = {
+  waiting: 'ellipsis-horizontal-circle-outline',
+  uploading: 'cloud-upload-outline',
+  done: 'checkmark-circle',
+  queued: 'cloud-offline-outline',
+  failed: 'alert-circle',
+  cancelled: 'close-circle-outline',
+};
+
+const describeStatus = (item: BatchItem) => {
+  switch (item.status) {
+    case 'waiting':
+      return 'Waiting';
+    case 'uploading':
+      return 'Uploading...';
+    case 'done':
+      return item.url;
+    case 'queued':
+      return 'Queued, it will be retried automatically';
+    case 'failed':
+      return item.error ?? 'Upload failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+export default function BatchUploadScreen() {
+  const { batch, isRunning, retryItems, cancelBatch, clearBatch } = useBatchUpload();
+  const { settings, setUrlListFormat } = useSettings();
+
+  const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  const items = batch?.items ?? [];
+  const urls = items.flatMap(item => (item.url ? [item.url] : []));
+  const retryableCount = items.filter(isRetryable).length;
+
+  const handleCopy = useCallback(async (text: string, message: string) => {
+    try {
+      await Clipboard.setStringAsync(text);
+      ToastAndroid.show(message, ToastAndroid.SHORT);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to copy URL');
+    }
+  }, []);
+
+  const handleDone = () => {
+    clearBatch();
+    router.back();
+  };
+
+  const statusColor = (status: BatchItemStatus) =>
+    status === 'done' ? primaryColor : status === 'failed' ? destructiveColor : subtleTextColor;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Batch Upload' }} />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {!batch ? (
+          <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>No batch upload in progress</ThemedText>
+        ) : (
+          <>
+            <ThemedText style={[styles.summary, { color: subtleTextColor }]}>
+              {`${describeBatch(items)} · ${batch.profile.name}`}
+            </ThemedText>
+
+            <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+              {items.map((item, index) => (
+                <View
+                  key={item.id}
+                  style={[styles.item, index > 0 && { borderTopWidth: 1, borderTopColor: separatorColor }]}
+                >
+                  <View style={styles.titleRow}>
+                    <Ionicons name={STATUS_ICONS[item.status]} size={20} color={statusColor(item.status)} />
+                    <ThemedText style={styles.title} numberOfLines={1} ellipsizeMode="middle">
+                      {item.file.name}
+                    </ThemedText>
+                    {item.file.size !== undefined && (
+                      <ThemedText style={[styles.detail, { color: subtleTextColor }]}>{formatBytes(item.file.size)}</ThemedText>
+                    )}
+                    {item.url && (
+                      <Pressable onPress={() => handleCopy(item.url!, 'URL copied to clipboard')} hitSlop={8}>
+                        <Ionicons name="copy-outline" size={18} color={primaryColor} />
+                      </Pressable>
+                    )}
+                    {isRetryable(item) && !isRunning && (
+                      <Pressable onPress={() => retryItems([item.id])} hitSlop={8}>
+                        <Ionicons name="refresh" size={18} color={primaryColor} />
+                      </Pressable>
+                    )}
+                  </View>
+                  {item.progress ? (
+                    <UploadProgressBar progress={item.progress} />
+                  ) : (
+                    <ThemedText
+                      style={[styles.detail, { color: item.status === 'failed' ? destructiveColor : subtleTextColor }]}
+                      numberOfLines={2}
+                      selectable={item.status === 'done'}
+                    >
+                      {describeStatus(item)}
+                    </ThemedText>
+                  )}
+                </View>
+              ))}
+            </ThemedView>
+
+            <View style={styles.buttonRow}>
+              {isRunning ? (
+                <Pressable
+                  style={({ pressed }) => [styles.button, { backgroundColor: destructiveColor, opacity: pressed ? 0.8 : 1 }]}
+                  onPress={cancelBatch}
+                >
+                  <Ionicons name="close-circle-outline" size={18} color="#FFFFFF" />
+                  <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+                </Pressable>
+              ) : (
+                <>
+                  {retryableCount > 0 && (
+                    <Pressable
+                      style={({ pressed }) => [styles.button, { backgroundColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+                      onPress={() => retryItems()}
+                    >
+                      <Ionicons name="refresh" size={18} color="#FFFFFF" />
+                      <ThemedText style={styles.buttonText}>{`Retry ${retryableCount}`}</ThemedText>
+                    </Pressable>
+                  )}
+                  <Pressable
+                    style={({ pressed }) => [styles.button, { backgroundColor: subtleTextColor, opacity: pressed ? 0.8 : 1 }]}
+                    onPress={handleDone}
+                  >
+                    <Ionicons name="checkmark" size={18} color="#FFFFFF" />
+                    <ThemedText style={styles.buttonText}>Done</ThemedText>
+                  </Pressable>
+                </>
+              )}
+            </View>
+            {urls.length > 1 && (
+              <View style={styles.formatRow}>
+                {URL_LIST_FORMATS.map(format => {
+                  const isActive = settings.urlListFormat === format.value;
+                  return (
+                    <Pressable
+                      key={format.value}
+                      style={[
+                        styles.chip,
+                        { borderColor: isActive ? primaryColor : separatorColor },
+                        isActive && { backgroundColor: primaryColor },
+                      ]}
+                      onPress={() => setUrlListFormat(format.value).catch(() => Alert.alert('Error', 'Failed to save format'))}
+                    >
+                      <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>
+                        {format.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+            {urls.length > 0 && (
+              <Pressable
+                style={({ pressed }) => [styles.button, { backgroundColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+                onPress={() => handleCopy(
+                  formatUrlList(items, settings.urlListFormat),
+                  `${urls.length} URL${urls.length === 1 ? '' : 's'} copied to clipboard`,
+                )}
+              >
+                <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
+                <ThemedText style={styles.buttonText}>
+                  {`Copy ${urls.length === 1 ? 'URL' : `All ${urls.length} URLs`}`}
+                </ThemedText>
+              </Pressable>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 16,
+    fontSize: 16,
+  },
+  summary: {
+    fontSize: 14,
+  },
+  card: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  item: {
+    paddingVertical: 10,
+    gap: 6,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 13,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
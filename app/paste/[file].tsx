@@ -0,0 +1,394 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Linking, Pressable, ScrollView, StyleSheet, TextInput, ToastAndroid, View } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { WebView } from 'react-native-webview';
+import * as Clipboard from 'expo-clipboard';
+import * as FileSystem from 'expo-file-system';
+import * as IntentLauncher from 'expo-intent-launcher';
+import { Ionicons } from '@expo/vector-icons';
+
+import { CodeView } from '@/components/CodeView';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { needsPassphrase, openPaste, parseSecretFragment, type OpenedPaste } from '@/services/encryption';
+import {
+  clearDecryptedPastes,
+  fetchPaste,
+  fetchPasteBytes,
+  MAX_TEXT_PREVIEW_BYTES,
+  previewKindFromName,
+  saveDecryptedPaste,
+  type DecryptedPaste,
+  type FetchedPaste,
+} from '@/services/paste';
+import { formatBytes } from '@/services/progress';
+import { buildFileUrl } from '@/services/serverUrl';
+import { detectLanguage } from '@/services/syntax';
+
+type PasteParams = {
+  file: string;
+  /** Full URL, for pastes on a server other than the active profile's. May carry a decryption key. */
+  url?: string;
+  /** "1" when opening the paste would delete it. */
+  oneshot?: string;
+};
+
+type ViewerState =
+  | { status: 'confirm' }
+  | { status: 'loading' }
+  | { status: 'passphrase'; data: Uint8Array; error?: string; decrypting?: boolean }
+  | { status: 'ready'; paste: FetchedPaste | DecryptedPaste }
+  | { status: 'error'; message: string };
+
+const isDecrypted = (paste: FetchedPaste | DecryptedPaste): paste is DecryptedPaste => 'localUri' in paste;
+
+const decrypted = async (opened: OpenedPaste): Promise<ViewerState> =>
+  ({ status: 'ready', paste: await saveDecryptedPaste(opened) });
+
+const videoHtml = (url: string) => `<!DOCTYPE html>
+<html><head><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="margin:0;background:#000;display:flex;align-items:center;justify-content:center;height:100vh">
+<video src="${url.replace(/"/g, '&quot;')}" controls playsinline style="max-width:100%;max-height:100%"></video>
+</body></html>`;
+
+export default function PasteScreen() {
+  const { file, url: urlParam, oneshot } = useLocalSearchParams<PasteParams>();
+  const { activeProfile } = useSettings();
+  const url = urlParam || buildFileUrl(activeProfile, file);
+  const kindFromName = previewKindFromName(file);
+  const secret = useMemo(() => parseSecretFragment(url), [url]);
+
+  // One-shot pastes are deleted once served, so loading one needs consent
+  const [state, setState] = useState<ViewerState>(oneshot === '1' ? { status: 'confirm' } : { status: 'loading' });
+  const [imageAspectRatio, setImageAspectRatio] = useState(1);
+  const [passphrase, setPassphrase] = useState('');
+
+  const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const iconColor = useThemeColor({ light: '#666666', dark: '#999999' }, 'text');
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  useEffect(() => {
+    if (state.status !== 'loading') {
+      return;
+    }
+
+    // Images and videos are streamed by their own views, no need to download them here
+    if (!secret && (kindFromName === 'image' || kindFromName === 'video' || kindFromName === 'other')) {
+      setState({ status: 'ready', paste: { kind: kindFromName, contentType: null, size: null, text: null } });
+      return;
+    }
+
+    const controller = new AbortController();
+    const load = async (): Promise<ViewerState> => {
+      if (!secret) {
+        return { status: 'ready', paste: await fetchPaste(url, controller.signal) };
+      }
+      const data = await fetchPasteBytes(url, controller.signal);
+      if (needsPassphrase(data)) {
+        return { status: 'passphrase', data };
+      }
+      return decrypted(await openPaste(data, { key: secret.type === 'key' ? secret.key : undefined }));
+    };
+
+    load()
+      .then(setState)
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          setState({ status: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      });
+
+    return () => controller.abort();
+  }, [state.status, url, kindFromName, secret]);
+
+  // Plaintext of encrypted pastes only lives in the cache while it is shown
+  useEffect(() => () => {
+    clearDecryptedPastes().catch(console.warn);
+  }, []);
+
+  const mediaUri = state.status === 'ready' && isDecrypted(state.paste) ? state.paste.localUri : url;
+
+  useEffect(() => {
+    if (state.status === 'ready' && state.paste.kind === 'image') {
+      Image.getSize(mediaUri, (width, height) => setImageAspectRatio(width / height), () => {});
+    }
+  }, [state, mediaUri]);
+
+  const handleDecrypt = useCallback(async () => {
+    if (state.status !== 'passphrase' || !passphrase) {
+      return;
+    }
+    const { data } = state;
+    setState({ status: 'passphrase', data, decrypting: true });
+    try {
+      setState(await decrypted(await openPaste(data, { passphrase })));
+    } catch (error) {
+      setState({ status: 'passphrase', data, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [state, passphrase]);
+
+  const handleOpenExternally = useCallback(async () => {
+    try {
+      if (state.status === 'ready' && isDecrypted(state.paste)) {
+        // Other apps cannot read our cache through a file:// URI
+        const contentUri = await FileSystem.getContentUriAsync(state.paste.localUri);
+        await IntentLauncher.startActivityAsync('android.intent.action.VIEW', { data: contentUri, flags: 1 });
+      } else {
+        await Linking.openURL(url);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'No app can open this file');
+    }
+  }, [state, url]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await Clipboard.setStringAsync(url);
+      ToastAndroid.show('URL copied to clipboard', ToastAndroid.SHORT);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to copy URL');
+    }
+  }, [url]);
+
+  const renderOpenButton = (label: string) => (
+    <Pressable
+      style={({ pressed }) => [styles.button, { backgroundColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+      onPress={handleOpenExternally}
+    >
+      <Ionicons name="open-outline" size={20} color="#FFFFFF" />
+      <ThemedText style={styles.buttonText}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  const renderFileInfo = (paste: FetchedPaste | DecryptedPaste, reason: string) => (
+    <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+      <View style={styles.infoHeader}>
+        <Ionicons name={isDecrypted(paste) ? 'lock-open-outline' : 'document-outline'} size={40} color={primaryColor} />
+        <ThemedText style={styles.fileName} numberOfLines={2} ellipsizeMode="middle">
+          {isDecrypted(paste) ? paste.name : file}
+        </ThemedText>
+      </View>
+      {paste.contentType && (
+        <ThemedText style={{ color: subtleTextColor }}>Type: {paste.contentType}</ThemedText>
+      )}
+      {paste.size !== null && (
+        <ThemedText style={{ color: subtleTextColor }}>Size: {formatBytes(paste.size)}</ThemedText>
+      )}
+      <ThemedText style={{ color: subtleTextColor }}>{reason}</ThemedText>
+      {renderOpenButton('Open Externally')}
+    </ThemedView>
+  );
+
+  const renderContent = () => {
+    switch (state.status) {
+      case 'confirm':
+        return (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            <View style={styles.infoHeader}>
+              <Ionicons name="flame-outline" size={32} color={destructiveColor} />
+              <ThemedText style={styles.fileName}>One-shot paste</ThemedText>
+            </View>
+            <ThemedText style={{ color: subtleTextColor }}>
+              This paste is deleted from the server as soon as it is viewed. Nobody else will be able to open the link afterwards.
+            </ThemedText>
+            <Pressable
+              style={({ pressed }) => [styles.button, { backgroundColor: destructiveColor, opacity: pressed ? 0.8 : 1 }]}
+              onPress={() => setState({ status: 'loading' })}
+            >
+              <Ionicons name="eye-outline" size={20} color="#FFFFFF" />
+              <ThemedText style={styles.buttonText}>View Anyway</ThemedText>
+            </Pressable>
+          </ThemedView>
+        );
+
+      case 'loading':
+        return <ActivityIndicator size="large" style={styles.loader} />;
+
+      case 'passphrase':
+        return (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            <View style={styles.infoHeader}>
+              <Ionicons name="lock-closed-outline" size={32} color={primaryColor} />
+              <ThemedText style={styles.fileName}>Encrypted paste</ThemedText>
+            </View>
+            <ThemedText style={{ color: subtleTextColor }}>
+              This paste is protected by a passphrase. It is decrypted on this device only.
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+              value={passphrase}
+              onChangeText={setPassphrase}
+              placeholder="Passphrase"
+              placeholderTextColor="#888"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!state.decrypting}
+              onSubmitEditing={handleDecrypt}
+            />
+            {state.error && (
+              <ThemedText style={{ color: destructiveColor }}>{state.error}</ThemedText>
+            )}
+            <Pressable
+              style={({ pressed }) => [
+                styles.button,
+                { backgroundColor: primaryColor, opacity: !passphrase || state.decrypting ? 0.5 : pressed ? 0.8 : 1 },
+              ]}
+              onPress={handleDecrypt}
+              disabled={!passphrase || state.decrypting}
+            >
+              {state.decrypting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Ionicons name="lock-open-outline" size={20} color="#FFFFFF" />
+              )}
+              <ThemedText style={styles.buttonText}>{state.decrypting ? 'Decrypting...' : 'Decrypt'}</ThemedText>
+            </Pressable>
+          </ThemedView>
+        );
+
+      case 'error':
+        return (
+          <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+            <View style={styles.infoHeader}>
+              <Ionicons name="alert-circle-outline" size={32} color={destructiveColor} />
+              <ThemedText style={styles.fileName}>Could not load paste</ThemedText>
+            </View>
+            <ThemedText style={{ color: subtleTextColor }}>{state.message}</ThemedText>
+            {renderOpenButton('Open in Browser')}
+          </ThemedView>
+        );
+
+      case 'ready': {
+        const { paste } = state;
+        if (paste.kind === 'image') {
+          return (
+            <ScrollView contentContainerStyle={styles.mediaContainer} maximumZoomScale={4} minimumZoomScale={1}>
+              <Image source={{ uri: mediaUri }} style={[styles.image, { aspectRatio: imageAspectRatio }]} resizeMode="contain" />
+            </ScrollView>
+          );
+        }
+        if (paste.kind === 'video') {
+          return (
+            <WebView
+              source={{ html: videoHtml(mediaUri), baseUrl: isDecrypted(paste) ? 'file:///' : undefined }}
+              style={styles.video}
+              allowsInlineMediaPlayback
+              mediaPlaybackRequiresUserAction={false}
+              originWhitelist={['*']}
+              allowFileAccess={isDecrypted(paste)}
+              allowFileAccessFromFileURLs={isDecrypted(paste)}
+            />
+          );
+        }
+        if (paste.kind === 'text' && paste.text !== null) {
+          return (
+            <View style={[styles.codeContainer, { backgroundColor: cardColor }]}>
+              <CodeView code={paste.text} language={detectLanguage(isDecrypted(paste) ? paste.name : file)} />
+            </View>
+          );
+        }
+        if (paste.kind === 'text') {
+          return renderFileInfo(paste, `Text files over ${formatBytes(MAX_TEXT_PREVIEW_BYTES)} are not previewed.`);
+        }
+        return renderFileInfo(paste, 'This file type cannot be previewed in the app.');
+      }
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: state.status === 'ready' && isDecrypted(state.paste) ? state.paste.name : file,
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <Pressable onPress={handleCopy} hitSlop={8}>
+                <Ionicons name="copy-outline" size={22} color={iconColor} />
+              </Pressable>
+              <Pressable onPress={handleOpenExternally} hitSlop={8}>
+                <Ionicons name="open-outline" size={22} color={iconColor} />
+              </Pressable>
+            </View>
+          ),
+        }}
+      />
+      <ThemedView style={styles.container}>
+        {renderContent()}
+      </ThemedView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  card: {
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  infoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+    marginTop: 4,
+  },
+  input: {
+    height: 44,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  codeContainer: {
+    flex: 1,
+    margin: 12,
+    borderRadius: 8,
+    paddingVertical: 8,
+  },
+  mediaContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 12,
+  },
+  image: {
+    width: '100%',
+  },
+  video: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+});
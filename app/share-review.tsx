@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Platform, Pressable, ScrollView, StyleSheet, Switch, TextInput, View } from 'react-native';
+import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ExpiryPicker } from '@/components/ExpiryPicker';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSettings } from '@/hooks/useSettings';
+import { defaultShareChoices, useShareReview } from '@/hooks/useShareReview';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { CancelledError } from '@/services/api';
+import { archiveFileName } from '@/services/archive';
+import { isValidExpiry } from '@/services/expiry';
+import { resolveUploadFilename } from '@/services/filename';
+import { formatBytes } from '@/services/progress';
+import { SHARED_URL_MODES, type SharedUrlMode } from '@/services/sharing';
+
+export default function ShareReviewScreen() {
+  const { settings, activeProfile } = useSettings();
+  const { pendingShare, dismissShare, sendShare } = useShareReview();
+  const content = pendingShare?.content ?? null;
+  // Starts from the active profile, or from what a share rule picked
+  const initial = pendingShare?.choices ?? defaultShareChoices(activeProfile);
+  const [profileId, setProfileId] = useState(initial.profile.id);
+  const profile = settings.profiles.find(candidate => candidate.id === profileId) ?? activeProfile;
+  const [expiry, setExpiry] = useState(initial.expiry);
+  const [oneshot, setOneshot] = useState(initial.oneshot);
+  const [filename, setFilename] = useState('');
+  const [urlMode, setUrlMode] = useState<SharedUrlMode>(initial.urlMode);
+  const [bundleFiles, setBundleFiles] = useState(false);
+
+  const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+
+  // Leaving the screen any other way than through Upload drops the share
+  useEffect(() => () => dismissShare(), []);
+
+  // Each server keeps its own defaults
+  const handleSelectProfile = (id: string) => {
+    const selected = settings.profiles.find(candidate => candidate.id === id);
+    if (selected) {
+      setProfileId(id);
+      setExpiry(selected.expiry);
+      setOneshot(selected.isOneShot);
+    }
+  };
+
+  const files = content?.kind === 'files' ? content.files : [];
+  const isArchive = files.length > 1 && bundleFiles;
+  // The name field applies to whatever ends up as a single stored file
+  const uploadName = !content
+    ? undefined
+    : isArchive
+      ? archiveFileName(filename, 'zip')
+      : files.length === 1
+        ? resolveUploadFilename(profile, files[0].name, filename)
+        : content.kind === 'text' || (content.kind === 'url' && urlMode === 'text')
+          ? resolveUploadFilename(profile, 'text.txt', filename)
+          : undefined;
+  const takesName = isArchive || files.length === 1 || content?.kind === 'text' || (content?.kind === 'url' && urlMode === 'text');
+  const expiryIsValid = isValidExpiry(expiry);
+
+  const handleCancel = () => {
+    dismissShare();
+    router.back();
+  };
+
+  const handleUpload = () => {
+    if (!content) {
+      return;
+    }
+    if (!profile.serverUrl) {
+      Alert.alert('Server Not Configured', `Set a server URL for ${profile.name} in Settings first.`);
+      return;
+    }
+
+    const choices = {
+      ...defaultShareChoices(profile),
+      expiry: expiry.trim(),
+      oneshot,
+      filename: filename.trim() || undefined,
+      urlMode,
+      multipleFiles: bundleFiles ? 'archive' as const : 'separately' as const,
+    };
+    dismissShare();
+    router.back();
+    sendShare(content, choices).catch(error => {
+      if (!(error instanceof CancelledError)) {
+        Alert.alert('Upload Error', error instanceof Error ? error.message : 'Unknown error');
+      }
+    });
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: isActive ? primaryColor : separatorColor },
+        isActive && { backgroundColor: primaryColor },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Review Share' }} />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        {!content ? (
+          <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>Nothing to review</ThemedText>
+        ) : (
+          <>
+            <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+              {content.kind === 'files' ? (
+                files.map(file => (
+                  <View key={file.uri} style={styles.fileRow}>
+                    <Ionicons name="document-text-outline" size={20} color={subtleTextColor} />
+                    <ThemedText style={styles.fileName} numberOfLines={1} ellipsizeMode="middle">{file.name}</ThemedText>
+                    {file.size !== undefined && (
+                      <ThemedText style={[styles.hint, { color: subtleTextColor }]}>{formatBytes(file.size)}</ThemedText>
+                    )}
+                  </View>
+                ))
+              ) : (
+                <ThemedText style={styles.previewText} numberOfLines={10} selectable>
+                  {content.kind === 'text' ? content.text : content.url}
+                </ThemedText>
+              )}
+            </ThemedView>
+
+            <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+              {settings.profiles.length > 1 && (
+                <>
+                  <ThemedText style={[styles.label, { color: subtleTextColor }]}>Server</ThemedText>
+                  <View style={styles.chipRow}>
+                    {settings.profiles.map(candidate =>
+                      renderChip(candidate.name, candidate.id === profile.id, () => handleSelectProfile(candidate.id))
+                    )}
+                  </View>
+                </>
+              )}
+
+              {content.kind === 'url' && (
+                <>
+                  <ThemedText style={[styles.label, { color: subtleTextColor }]}>Send link as</ThemedText>
+                  <View style={styles.chipRow}>
+                    {SHARED_URL_MODES.map(mode => renderChip(mode.label, urlMode === mode.value, () => setUrlMode(mode.value)))}
+                  </View>
+                </>
+              )}
+
+              {files.length > 1 && (
+                <View style={styles.row}>
+                  <ThemedText style={styles.rowLabel}>Bundle into one ZIP archive</ThemedText>
+                  <Switch
+                    value={bundleFiles}
+                    onValueChange={setBundleFiles}
+                    trackColor={{ false: '#767577', true: primaryColor }}
+                    thumbColor={bundleFiles ? '#FFFFFF' : '#f4f3f4'}
+                  />
+                </View>
+              )}
+
+              {takesName && (
+                <>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+                    value={filename}
+                    onChangeText={setFilename}
+                    placeholder={isArchive ? 'Archive name (optional)' : 'Filename (optional)'}
+                    placeholderTextColor="#888"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <ThemedText style={[styles.hint, { color: subtleTextColor }]} numberOfLines={1} ellipsizeMode="middle">
+                    {uploadName ? `Uploads as ${uploadName}` : 'The server picks the name'}
+                  </ThemedText>
+                </>
+              )}
+
+              <ThemedText style={[styles.label, { color: subtleTextColor }]}>Expiry</ThemedText>
+              <ExpiryPicker value={expiry} onChange={setExpiry} />
+
+              <View style={styles.row}>
+                <ThemedText style={styles.rowLabel}>One-shot (delete after first view)</ThemedText>
+                <Switch
+                  value={oneshot}
+                  onValueChange={setOneshot}
+                  trackColor={{ false: '#767577', true: primaryColor }}
+                  thumbColor={oneshot ? '#FFFFFF' : '#f4f3f4'}
+                />
+              </View>
+            </ThemedView>
+
+            <View style={styles.buttonRow}>
+              <Pressable
+                style={({ pressed }) => [styles.button, { backgroundColor: subtleTextColor, opacity: pressed ? 0.8 : 1 }]}
+                onPress={handleCancel}
+              >
+                <Ionicons name="close" size={18} color="#FFFFFF" />
+                <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.button,
+                  { backgroundColor: primaryColor, opacity: !expiryIsValid ? 0.5 : pressed ? 0.8 : 1 },
+                ]}
+                onPress={handleUpload}
+                disabled={!expiryIsValid}
+              >
+                <Ionicons name="cloud-upload-outline" size={18} color="#FFFFFF" />
+                <ThemedText style={styles.buttonText}>Upload</ThemedText>
+              </Pressable>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 16,
+    fontSize: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  previewText: {
+    fontSize: 14,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  hint: {
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  input: {
+    height: 44,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Alert, Platform, Pressable, ScrollView, StyleSheet, Switch, ToastAndroid, View } from 'react-native';
+import { Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ShareRuleEditor } from '@/components/ShareRuleEditor';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { isValidExpiry } from '@/services/expiry';
+import { formatBytes } from '@/services/progress';
+import { createShareRule, describeShareRule, type ShareRule } from '@/services/shareRules';
+
+export default function ShareRulesScreen() {
+  const { settings, setShareRules } = useSettings();
+  const [rules, setRules] = useState<ShareRule[]>(settings.shareRules);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const cardColor = useThemeColor({ light: '#ffffff', dark: '#1C1C1E' }, 'background');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  const hasChanges = JSON.stringify(rules) !== JSON.stringify(settings.shareRules);
+  const isValid = rules.every(rule => rule.expiry === undefined || isValidExpiry(rule.expiry));
+
+  const updateRule = (updated: ShareRule) => {
+    setRules(current => current.map(rule => (rule.id === updated.id ? updated : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setRules(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    const rule = createShareRule({ name: `Rule ${rules.length + 1}` });
+    setRules(current => [...current, rule]);
+    setExpandedId(rule.id);
+  };
+
+  const handleRemove = (rule: ShareRule) => {
+    Alert.alert('Delete Rule', `Delete "${rule.name || 'Unnamed rule'}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => setRules(current => current.filter(candidate => candidate.id !== rule.id)),
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!isValid) {
+      Alert.alert('Invalid Expiry', 'Fix the expiry of the highlighted rules before saving.');
+      return;
+    }
+    try {
+      await setShareRules(rules);
+      ToastAndroid.show('Share rules saved', ToastAndroid.SHORT);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save share rules');
+    }
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Share Rules' }} />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          Rules are checked from the top for everything shared with DroidyPaste, and the first match decides. Shares no rule matches follow the review setting.
+        </ThemedText>
+
+        {rules.map((rule, index) => {
+          const isExpanded = expandedId === rule.id;
+          const hasBadExpiry = rule.expiry !== undefined && !isValidExpiry(rule.expiry);
+          return (
+            <ThemedView key={rule.id} style={[styles.card, { backgroundColor: cardColor }]}>
+              <View style={styles.headerRow}>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={enabled => updateRule({ ...rule, enabled })}
+                  trackColor={{ false: '#767577', true: primaryColor }}
+                  thumbColor={rule.enabled ? '#FFFFFF' : '#f4f3f4'}
+                />
+                <Pressable style={styles.titleContainer} onPress={() => setExpandedId(isExpanded ? null : rule.id)}>
+                  <ThemedText style={styles.title} numberOfLines={1}>{rule.name || 'Unnamed rule'}</ThemedText>
+                  <ThemedText style={[styles.hint, { color: hasBadExpiry ? destructiveColor : subtleTextColor }]} numberOfLines={2}>
+                    {hasBadExpiry ? 'Invalid expiry' : describeShareRule(rule, formatBytes)}
+                  </ThemedText>
+                </Pressable>
+                <Pressable onPress={() => moveRule(index, -1)} disabled={index === 0} hitSlop={6}>
+                  <Ionicons name="chevron-up" size={20} color={index === 0 ? '#767577' : subtleTextColor} />
+                </Pressable>
+                <Pressable onPress={() => moveRule(index, 1)} disabled={index === rules.length - 1} hitSlop={6}>
+                  <Ionicons name="chevron-down" size={20} color={index === rules.length - 1 ? '#767577' : subtleTextColor} />
+                </Pressable>
+                <Pressable onPress={() => handleRemove(rule)} hitSlop={6}>
+                  <Ionicons name="trash-outline" size={20} color={destructiveColor} />
+                </Pressable>
+              </View>
+              {isExpanded && <ShareRuleEditor value={rule} onChange={updateRule} profiles={settings.profiles} />}
+            </ThemedView>
+          );
+        })}
+
+        <View style={styles.buttonRow}>
+          <Pressable
+            style={({ pressed }) => [styles.button, styles.secondaryButton, { borderColor: primaryColor, opacity: pressed ? 0.8 : 1 }]}
+            onPress={handleAdd}
+          >
+            <Ionicons name="add" size={18} color={primaryColor} />
+            <ThemedText style={[styles.buttonText, { color: primaryColor }]}>Add Rule</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [
+              styles.button,
+              { backgroundColor: primaryColor, opacity: !hasChanges || !isValid ? 0.5 : pressed ? 0.8 : 1 },
+            ]}
+            onPress={handleSave}
+            disabled={!hasChanges || !isValid}
+          >
+            <Ionicons name="save-outline" size={18} color="#FFFFFF" />
+            <ThemedText style={styles.buttonText}>Save</ThemedText>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    gap: 16,
+  },
+  hint: {
+    fontSize: 13,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.08,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  titleContainer: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { FlatList, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { highlightLines, type TokenType } from '@/services/syntax';
+
+const TOKEN_COLORS: Record<'light' | 'dark', Record<Exclude<TokenType, 'plain'>, string>> = {
+  light: {
+    keyword: '#A626A4',
+    literal: '#986801',
+    string: '#50A14F',
+    comment: '#A0A1A7',
+    number: '#986801',
+  },
+  dark: {
+    keyword: '#C678DD',
+    literal: '#D19A66',
+    string: '#98C379',
+    comment: '#7F848E',
+    number: '#D19A66',
+  },
+};
+
+type CodeViewProps = {
+  code: string;
+  /** As returned by detectLanguage; null renders plain text. */
+  language: string | null;
+};
+
+export function CodeView({ code, language }: CodeViewProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const textColor = useThemeColor({ light: '#24292E', dark: '#E1E4E8' }, 'text');
+  const gutterColor = useThemeColor({ light: '#9AA0A6', dark: '#5C6370' }, 'text');
+  const lines = useMemo(() => highlightLines(code, language), [code, language]);
+  const gutterWidth = String(lines.length).length * 9 + 12;
+  const colors = TOKEN_COLORS[colorScheme];
+
+  return (
+    <ScrollView horizontal contentContainerStyle={styles.horizontalContent}>
+      <FlatList
+        data={lines}
+        keyExtractor={(_, index) => String(index)}
+        initialNumToRender={60}
+        windowSize={11}
+        renderItem={({ item, index }) => (
+          <View style={styles.line}>
+            <Text style={[styles.code, styles.lineNumber, { color: gutterColor, width: gutterWidth }]}>
+              {index + 1}
+            </Text>
+            <Text style={[styles.code, { color: textColor }]} selectable>
+              {item.map((token, tokenIndex) => (
+                <Text key={tokenIndex} style={token.type === 'plain' ? undefined : { color: colors[token.type] }}>
+                  {token.text}
+                </Text>
+              ))}
+            </Text>
+          </View>
+        )}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  horizontalContent: {
+    minWidth: '100%',
+  },
+  line: {
+    flexDirection: 'row',
+  },
+  code: {
+    fontFamily: 'SpaceMono',
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  lineNumber: {
+    textAlign: 'right',
+    paddingRight: 12,
+  },
+});
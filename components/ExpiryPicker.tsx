@@ -0,0 +1,116 @@
+import { Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { describeExpiryTime, EXPIRY_PRESETS, humanizeDuration, parseExpiry } from '@/services/expiry';
+
+type ExpiryPickerProps = {
+  value: string;
+  onChange: (value: string) => void;
+  editable?: boolean;
+};
+
+/** Free-form rustypaste duration with presets and a live preview. Empty means permanent. */
+export function ExpiryPicker({ value, onChange, editable = true }: ExpiryPickerProps) {
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  const trimmed = value.trim();
+  const parsed = trimmed ? parseExpiry(trimmed) : null;
+  const presets = [{ label: 'Never', value: '' }, ...EXPIRY_PRESETS];
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: inputBackground, color: textColor },
+          parsed?.ok === false && { borderColor: destructiveColor, borderWidth: 1 },
+        ]}
+        value={value}
+        onChangeText={onChange}
+        placeholder="Never, or e.g. 10min, 1h 30m, 2d"
+        placeholderTextColor="#888"
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={editable}
+      />
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {presets.map(preset => {
+          const isActive = trimmed === preset.value;
+          return (
+            <Pressable
+              key={preset.label}
+              style={[
+                styles.chip,
+                { borderColor: isActive ? primaryColor : separatorColor },
+                isActive && { backgroundColor: primaryColor },
+              ]}
+              onPress={() => onChange(preset.value)}
+              disabled={!editable}
+            >
+              <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>
+                {preset.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      <View style={styles.previewRow}>
+        <Ionicons
+          name={parsed?.ok === false ? 'alert-circle-outline' : 'time-outline'}
+          size={14}
+          color={parsed?.ok === false ? destructiveColor : subtleTextColor}
+        />
+        <ThemedText style={[styles.preview, { color: parsed?.ok === false ? destructiveColor : subtleTextColor }]}>
+          {!parsed
+            ? 'Never expires'
+            : parsed.ok
+              ? `${describeExpiryTime(parsed.milliseconds)} (${humanizeDuration(parsed.milliseconds)})`
+              : parsed.error}
+        </ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  input: {
+    height: 40,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  preview: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
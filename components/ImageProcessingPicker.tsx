@@ -0,0 +1,181 @@
+import { Pressable, StyleSheet, Switch, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import {
+  estimateProcessedSize,
+  fitDimensions,
+  IMAGE_OUTPUT_FORMATS,
+  isValidImageProcessing,
+  type ImageProcessingSettings,
+} from '@/services/imageProcessing';
+import { formatBytes } from '@/services/progress';
+
+type ImageProcessingPickerProps = {
+  value: ImageProcessingSettings;
+  onChange: (value: ImageProcessingSettings) => void;
+  editable?: boolean;
+  /** The image about to be uploaded, for a concrete estimate. */
+  sample?: { width: number; height: number; size?: number };
+};
+
+// A typical 12 MP phone photo, used for the estimate when there is no image at hand
+const TYPICAL_PHOTO = { width: 4000, height: 3000 };
+
+const parseNumber = (text: string) => Number(text.replace(/\D/g, '') || '0');
+
+/** Switch plus size, format and quality fields, with an estimate of the result. */
+export function ImageProcessingPicker({ value, onChange, editable = true, sample }: ImageProcessingPickerProps) {
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  const update = (changes: Partial<ImageProcessingSettings>) => onChange({ ...value, ...changes });
+  const isValid = isValidImageProcessing(value);
+  const image = sample ?? TYPICAL_PHOTO;
+  const target = fitDimensions(image.width, image.height, value.maxDimension);
+  const estimate = formatBytes(estimateProcessedSize(image.width, image.height, value));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <ThemedText style={styles.label}>Resize and recompress images</ThemedText>
+        <Switch
+          value={value.enabled}
+          onValueChange={enabled => update({ enabled })}
+          trackColor={{ false: '#767577', true: primaryColor }}
+          thumbColor={value.enabled ? '#FFFFFF' : '#f4f3f4'}
+          disabled={!editable}
+        />
+      </View>
+
+      {value.enabled && (
+        <>
+          <View style={styles.row}>
+            {IMAGE_OUTPUT_FORMATS.map(format => {
+              const isActive = value.format === format.value;
+              return (
+                <Pressable
+                  key={format.value}
+                  style={[
+                    styles.chip,
+                    { borderColor: isActive ? primaryColor : separatorColor },
+                    isActive && { backgroundColor: primaryColor },
+                  ]}
+                  onPress={() => update({ format: format.value })}
+                  disabled={!editable}
+                >
+                  <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>
+                    {format.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={styles.row}>
+            <ThemedText style={styles.fieldLabel}>Longest side</ThemedText>
+            <TextInput
+              style={[styles.input, { backgroundColor: inputBackground, color: textColor }]}
+              value={value.maxDimension ? String(value.maxDimension) : ''}
+              onChangeText={text => update({ maxDimension: parseNumber(text) })}
+              placeholder="Any"
+              placeholderTextColor="#888"
+              keyboardType="number-pad"
+              editable={editable}
+            />
+            <ThemedText style={[styles.unit, { color: subtleTextColor }]}>px</ThemedText>
+          </View>
+          {value.format !== 'png' && (
+            <View style={styles.row}>
+              <ThemedText style={styles.fieldLabel}>Quality</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  { backgroundColor: inputBackground, color: textColor },
+                  !isValid && { borderColor: destructiveColor, borderWidth: 1 },
+                ]}
+                value={value.quality ? String(value.quality) : ''}
+                onChangeText={text => update({ quality: Math.min(100, parseNumber(text)) })}
+                placeholder="80"
+                placeholderTextColor="#888"
+                keyboardType="number-pad"
+                editable={editable}
+              />
+              <ThemedText style={[styles.unit, { color: subtleTextColor }]}>%</ThemedText>
+            </View>
+          )}
+
+          <View style={styles.previewRow}>
+            <Ionicons
+              name={isValid ? 'image-outline' : 'alert-circle-outline'}
+              size={14}
+              color={isValid ? subtleTextColor : destructiveColor}
+            />
+            <ThemedText style={[styles.preview, { color: isValid ? subtleTextColor : destructiveColor }]}>
+              {!isValid
+                ? 'Quality must be between 1 and 100'
+                : sample
+                  ? `About ${estimate} at ${target.width}×${target.height}${sample.size ? `, down from ${formatBytes(sample.size)}` : ''}`
+                  : `A 12 MP photo would be about ${estimate} at ${target.width}×${target.height}`}
+            </ThemedText>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    flex: 1,
+    fontSize: 16,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  input: {
+    width: 80,
+    height: 40,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  unit: {
+    width: 20,
+    fontSize: 14,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  preview: {
+    flex: 1,
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,81 @@
+import { Alert, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+type ProfileSwitcherProps = {
+  disabled?: boolean;
+  onAddProfile?: () => void;
+};
+
+export function ProfileSwitcher({ disabled = false, onAddProfile }: ProfileSwitcherProps) {
+  const { settings, setActiveProfile } = useSettings();
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+
+  const handleSelect = async (id: string) => {
+    try {
+      await setActiveProfile(id);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to switch server profile');
+    }
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.container}>
+      {settings.profiles.map((profile) => {
+        const isActive = profile.id === settings.activeProfileId;
+        return (
+          <Pressable
+            key={profile.id}
+            style={[styles.chip, { borderColor: separatorColor }, isActive && styles.chipActive]}
+            onPress={() => handleSelect(profile.id)}
+            disabled={disabled || isActive}
+          >
+            <Ionicons name="server-outline" size={14} color={isActive ? '#FFFFFF' : subtleTextColor} />
+            <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>
+              {profile.name || 'Unnamed'}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+      {onAddProfile && (
+        <Pressable
+          style={[styles.chip, { borderColor: separatorColor }]}
+          onPress={onAddProfile}
+          disabled={disabled}
+        >
+          <Ionicons name="add" size={14} color={subtleTextColor} />
+          <ThemedText style={[styles.chipText, { color: subtleTextColor }]}>Add</ThemedText>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    backgroundColor: 'transparent',
+  },
+  chipActive: {
+    backgroundColor: '#A7C83F',
+    borderColor: '#A7C83F',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,166 @@
+import { Pressable, StyleSheet, Switch, TextInput, View } from 'react-native';
+
+import { ExpiryPicker } from '@/components/ExpiryPicker';
+import { ThemedText } from '@/components/ThemedText';
+import type { ServerProfile } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { SHARE_RULE_ACTIONS, type ShareRule, type ShareRuleMatch } from '@/services/shareRules';
+
+type ShareRuleEditorProps = {
+  value: ShareRule;
+  onChange: (value: ShareRule) => void;
+  profiles: ServerProfile[];
+};
+
+const KB = 1024;
+
+const parseKilobytes = (text: string) => Number(text.replace(/\D/g, '') || '0') * KB;
+
+const ONESHOT_CHOICES: { value: boolean | undefined; label: string }[] = [
+  { value: undefined, label: 'Profile default' },
+  { value: true, label: 'On' },
+  { value: false, label: 'Off' },
+];
+
+/** The conditions, action and upload settings of one share rule. */
+export function ShareRuleEditor({ value, onChange, profiles }: ShareRuleEditorProps) {
+  const inputBackground = useThemeColor({ light: '#F0F0F0', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+
+  const update = (changes: Partial<ShareRule>) => onChange({ ...value, ...changes });
+  const updateMatch = (changes: Partial<ShareRuleMatch>) => update({ match: { ...value.match, ...changes } });
+  const uploads = value.action !== 'reject';
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isActive ? primaryColor : separatorColor },
+        isActive && { backgroundColor: primaryColor },
+      ]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, { color: isActive ? '#FFFFFF' : subtleTextColor }]}>{label}</ThemedText>
+    </Pressable>
+  );
+
+  const renderInput = (label: string, text: string, onChangeText: (text: string) => void, placeholder: string, numeric = false) => (
+    <View style={styles.row}>
+      <ThemedText style={styles.fieldLabel}>{label}</ThemedText>
+      <TextInput
+        style={[styles.input, numeric && styles.numberInput, { backgroundColor: inputBackground, color: textColor }]}
+        value={text}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor="#888"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType={numeric ? 'number-pad' : 'default'}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {renderInput('Name', value.name, name => update({ name }), 'e.g., Screenshots')}
+
+      <ThemedText style={[styles.sectionLabel, { color: subtleTextColor }]}>When shared content matches</ThemedText>
+      {renderInput('MIME types', value.match.mimeTypes, mimeTypes => updateMatch({ mimeTypes }), 'image/*, text/plain')}
+      {renderInput('Extensions', value.match.extensions, extensions => updateMatch({ extensions }), 'png, jpg')}
+      {renderInput('Larger than (KB)', value.match.minSize ? String(value.match.minSize / KB) : '', text => updateMatch({ minSize: parseKilobytes(text) }), 'Any', true)}
+      {renderInput('Up to (KB)', value.match.maxSize ? String(value.match.maxSize / KB) : '', text => updateMatch({ maxSize: parseKilobytes(text) }), 'Any', true)}
+      {renderInput('Link hosts', value.match.sources, sources => updateMatch({ sources }), 'youtube.com')}
+      <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+        Empty fields match anything. Shared text counts as text/plain and links as text/uri-list. Link hosts match the address of a shared link.
+      </ThemedText>
+
+      <ThemedText style={[styles.sectionLabel, { color: subtleTextColor }]}>Then</ThemedText>
+      <View style={styles.chipRow}>
+        {SHARE_RULE_ACTIONS.map(action => renderChip(action.value, action.label, value.action === action.value, () => update({ action: action.value })))}
+      </View>
+
+      {uploads && (
+        <>
+          <ThemedText style={[styles.sectionLabel, { color: subtleTextColor }]}>Server</ThemedText>
+          <View style={styles.chipRow}>
+            {renderChip('active', 'Active profile', !value.profileId, () => update({ profileId: undefined }))}
+            {profiles.map(profile =>
+              renderChip(profile.id, profile.name || 'Unnamed', value.profileId === profile.id, () => update({ profileId: profile.id }))
+            )}
+          </View>
+
+          <View style={styles.row}>
+            <ThemedText style={styles.fieldLabel}>Own expiry</ThemedText>
+            <Switch
+              value={value.expiry !== undefined}
+              onValueChange={enabled => update({ expiry: enabled ? '' : undefined })}
+              trackColor={{ false: '#767577', true: primaryColor }}
+              thumbColor={value.expiry !== undefined ? '#FFFFFF' : '#f4f3f4'}
+            />
+          </View>
+          {value.expiry !== undefined && <ExpiryPicker value={value.expiry} onChange={expiry => update({ expiry })} />}
+
+          <ThemedText style={[styles.sectionLabel, { color: subtleTextColor }]}>One-shot</ThemedText>
+          <View style={styles.chipRow}>
+            {ONESHOT_CHOICES.map(choice =>
+              renderChip(choice.label, choice.label, value.oneshot === choice.value, () => update({ oneshot: choice.value }))
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fieldLabel: {
+    width: 130,
+    fontSize: 15,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 6,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  numberInput: {
+    textAlign: 'right',
+  },
+  hint: {
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,40 @@
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { describeProgress, type UploadProgress } from '@/services/progress';
+
+export function UploadProgressBar({ progress }: { progress: UploadProgress }) {
+  const trackColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.track, { backgroundColor: trackColor }]}>
+        <View style={[styles.fill, { width: `${progress.percent ?? 0}%` }]} />
+      </View>
+      <ThemedText style={[styles.label, { color: subtleTextColor }]}>
+        {describeProgress(progress)}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#A7C83F',
+  },
+  label: {
+    fontSize: 14,
+  },
+});
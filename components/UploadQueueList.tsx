@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ExpiryPicker } from '@/components/ExpiryPicker';
+import { ThemedText } from '@/components/ThemedText';
+import { useSettings } from '@/hooks/useSettings';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { isValidExpiry } from '@/services/expiry';
+import type { QueuedUpload, QueuedUploadKind } from '@/services/uploadQueue';
+
+const KIND_ICONS: Record<QueuedUploadKind, React.ComponentProps<typeof Ionicons>['name']> = {
+  text: 'text-outline',
+  file: 'document-outline',
+  url: 'cut-outline',
+  remote: 'cloud-download-outline',
+};
+
+const describeStatus = (item: QueuedUpload) => {
+  switch (item.status) {
+    case 'uploading':
+      return 'Uploading...';
+    case 'failed':
+      return 'Failed, retry manually';
+    case 'pending':
+      return item.nextAttemptAt <= Date.now()
+        ? 'Waiting for connection'
+        : `Next retry at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`;
+  }
+};
+
+export function UploadQueueList() {
+  const { queue, retryUpload, cancelUpload, updateUploadOptions } = useUploadQueue();
+  const { settings } = useSettings();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editExpiry, setEditExpiry] = useState('');
+  const [editIsOneShot, setEditIsOneShot] = useState(false);
+
+  const subtleTextColor = useThemeColor({ light: '#6c757d', dark: '#adb5bd' }, 'text');
+  const separatorColor = useThemeColor({ light: '#E5E5EA', dark: '#3A3A3C' }, 'background');
+  const primaryColor = '#A7C83F';
+  const destructiveColor = '#E38C19';
+
+  const startEditing = (item: QueuedUpload) => {
+    setEditingId(item.id);
+    setEditExpiry(item.options.expiry ?? '');
+    setEditIsOneShot(!!item.options.oneshot);
+  };
+
+  // Keeps the options this form doesn't show, such as encryption and the filename
+  const saveEditing = async (item: QueuedUpload) => {
+    await updateUploadOptions(item.id, {
+      ...item.options,
+      expiry: editExpiry.trim() || undefined,
+      oneshot: editIsOneShot || undefined,
+    });
+    setEditingId(null);
+  };
+
+  const confirmCancel = (item: QueuedUpload) => {
+    Alert.alert(
+      'Cancel Upload',
+      `Remove "${item.displayName}" from the upload queue?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => cancelUpload(item.id) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {queue.map((item, index) => {
+        const profileName = settings.profiles.find(p => p.id === item.profileId)?.name ?? 'Deleted profile';
+        const isUploading = item.status === 'uploading';
+
+        return (
+          <View
+            key={item.id}
+            style={[styles.item, index > 0 && { borderTopWidth: 1, borderTopColor: separatorColor }]}
+          >
+            <View style={styles.titleRow}>
+              <Ionicons name={KIND_ICONS[item.kind]} size={20} color={item.status === 'failed' ? destructiveColor : primaryColor} />
+              <ThemedText style={styles.title} numberOfLines={1} ellipsizeMode="middle">
+                {item.displayName}
+              </ThemedText>
+            </View>
+            <ThemedText style={[styles.detail, { color: subtleTextColor }]}>
+              {`${profileName} · ${describeStatus(item)}${item.attempts > 0 ? ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}` : ''}`}
+            </ThemedText>
+            {item.lastError && (
+              <ThemedText style={[styles.detail, { color: destructiveColor }]} numberOfLines={2}>
+                {item.lastError}
+              </ThemedText>
+            )}
+
+            {editingId === item.id && (
+              <View style={styles.editor}>
+                <View style={styles.editorRow}>
+                  <ThemedText style={styles.editorLabel}>One-shot</ThemedText>
+                  <Switch
+                    value={editIsOneShot}
+                    onValueChange={setEditIsOneShot}
+                    trackColor={{ false: '#767577', true: primaryColor }}
+                    thumbColor={editIsOneShot ? '#FFFFFF' : '#f4f3f4'}
+                  />
+                </View>
+                <ThemedText style={styles.editorLabel}>Expires in</ThemedText>
+                <ExpiryPicker value={editExpiry} onChange={setEditExpiry} />
+              </View>
+            )}
+
+            <View style={styles.actionRow}>
+              {editingId === item.id ? (
+                <>
+                  <Pressable style={styles.action} onPress={() => setEditingId(null)}>
+                    <ThemedText style={[styles.actionText, { color: subtleTextColor }]}>Discard</ThemedText>
+                  </Pressable>
+                  <Pressable
+                    style={[styles.action, !isValidExpiry(editExpiry) && { opacity: 0.5 }]}
+                    onPress={() => saveEditing(item)}
+                    disabled={!isValidExpiry(editExpiry)}
+                  >
+                    <Ionicons name="checkmark" size={18} color={primaryColor} />
+                    <ThemedText style={[styles.actionText, { color: primaryColor }]}>Save</ThemedText>
+                  </Pressable>
+                </>
+              ) : (
+                <>
+                  <Pressable style={styles.action} onPress={() => startEditing(item)} disabled={isUploading}>
+                    <Ionicons name="create-outline" size={18} color={subtleTextColor} />
+                    <ThemedText style={[styles.actionText, { color: subtleTextColor }]}>Options</ThemedText>
+                  </Pressable>
+                  <Pressable style={styles.action} onPress={() => confirmCancel(item)} disabled={isUploading}>
+                    <Ionicons name="close" size={18} color={destructiveColor} />
+                    <ThemedText style={[styles.actionText, { color: destructiveColor }]}>Cancel</ThemedText>
+                  </Pressable>
+                  <Pressable style={styles.action} onPress={() => retryUpload(item.id)} disabled={isUploading}>
+                    <Ionicons name="refresh" size={18} color={primaryColor} />
+                    <ThemedText style={[styles.actionText, { color: primaryColor }]}>Retry now</ThemedText>
+                  </Pressable>
+                </>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  item: {
+    paddingVertical: 8,
+    gap: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 13,
+  },
+  editor: {
+    gap: 8,
+    paddingTop: 4,
+  },
+  editorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  editorLabel: {
+    fontSize: 15,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    paddingTop: 4,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
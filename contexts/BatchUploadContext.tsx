@@ -0,0 +1,163 @@
+import React, { createContext, useCallback, useContext, useRef, useState, type PropsWithChildren } from 'react';
+
+import { useSettings, type ServerProfile } from '@/contexts/SettingsContext';
+import { useUploadQueue } from '@/contexts/UploadQueueContext';
+import { CancelledError, type UploadOptions } from '@/services/api';
+import {
+  createBatchItems,
+  formatUrlList,
+  isRetryable,
+  isWhollyCancelled,
+  mapWithConcurrency,
+  MAX_PARALLEL_UPLOADS,
+  type BatchItem,
+} from '@/services/batch';
+import { resolveUploadFilename } from '@/services/filename';
+import { processedFileName } from '@/services/imageProcessing';
+import { notifyBatchComplete } from '@/services/notifications';
+import type { PickedFile } from '@/services/sharing';
+
+interface Batch {
+  profile: ServerProfile;
+  options: UploadOptions;
+  items: BatchItem[];
+}
+
+interface BatchUploadContextType {
+  batch: Batch | null;
+  isRunning: boolean;
+  /** Replaces any finished batch; refused while another one is running. */
+  startBatch: (files: PickedFile[], profile: ServerProfile, options: UploadOptions) => boolean;
+  retryItems: (ids?: string[]) => void;
+  cancelBatch: () => void;
+  clearBatch: () => void;
+}
+
+export const BatchUploadContext = createContext<BatchUploadContextType>({
+  batch: null,
+  isRunning: false,
+  startBatch: () => false,
+  retryItems: () => {},
+  cancelBatch: () => {},
+  clearBatch: () => {},
+});
+
+export function BatchUploadProvider({ children }: Readonly<PropsWithChildren>) {
+  const { settings } = useSettings();
+  const { submitUpload } = useUploadQueue();
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const batchRef = useRef<Batch | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const commit = useCallback((next: Batch | null) => {
+    batchRef.current = next;
+    setBatch(next);
+  }, []);
+
+  const patchItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    const current = batchRef.current;
+    if (current) {
+      commit({ ...current, items: current.items.map(item => (item.id === id ? { ...item, ...changes } : item)) });
+    }
+  }, [commit]);
+
+  const run = useCallback(async (ids: string[]) => {
+    const current = batchRef.current;
+    if (!current || ids.length === 0) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsRunning(true);
+    ids.forEach(id => patchItem(id, { status: 'waiting', progress: null, error: null }));
+
+    const { profile, options } = current;
+    await mapWithConcurrency(ids, MAX_PARALLEL_UPLOADS, async (id) => {
+      const item = batchRef.current?.items.find(batchItem => batchItem.id === id);
+      if (!item) {
+        return;
+      }
+      if (abortController.signal.aborted) {
+        patchItem(id, { status: 'cancelled' });
+        return;
+      }
+
+      patchItem(id, { status: 'uploading' });
+      try {
+        const filename = resolveUploadFilename(
+          profile,
+          processedFileName(item.file.name, options.imageProcessing ?? profile.imageProcessing),
+        );
+        // The batch announces itself once it is done instead of once per file
+        const url = await submitUpload('file', item.file.uri, profile, { ...options, filename }, {
+          signal: abortController.signal,
+          onProgress: progress => patchItem(id, { progress }),
+          silent: true,
+        });
+        // A null result means the upload queue took over
+        patchItem(id, url ? { status: 'done', url, progress: null } : { status: 'queued', progress: null });
+      } catch (error) {
+        patchItem(id, {
+          status: error instanceof CancelledError ? 'cancelled' : 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          progress: null,
+        });
+      }
+    });
+
+    if (abortControllerRef.current === abortController) {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+
+    const items = batchRef.current?.items ?? [];
+    if (isWhollyCancelled(items)) {
+      return;
+    }
+    await notifyBatchComplete(items, formatUrlList(items, settings.urlListFormat));
+  }, [patchItem, submitUpload, settings.urlListFormat]);
+
+  const startBatch = (files: PickedFile[], profile: ServerProfile, options: UploadOptions) => {
+    if (abortControllerRef.current) {
+      return false;
+    }
+    const items = createBatchItems(files);
+    commit({ profile, options, items });
+    run(items.map(item => item.id));
+    return true;
+  };
+
+  const retryItems = (ids?: string[]) => {
+    if (abortControllerRef.current || !batchRef.current) {
+      return;
+    }
+    const retryable = batchRef.current.items.filter(item => isRetryable(item) && (!ids || ids.includes(item.id)));
+    run(retryable.map(item => item.id));
+  };
+
+  const cancelBatch = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const clearBatch = () => {
+    if (!abortControllerRef.current) {
+      commit(null);
+    }
+  };
+
+  return (
+    <BatchUploadContext.Provider value={{ batch, isRunning, startBatch, retryItems, cancelBatch, clearBatch }}>
+      {children}
+    </BatchUploadContext.Provider>
+  );
+}
+
+export function useBatchUpload(): BatchUploadContextType {
+  const context = useContext(BatchUploadContext);
+  if (context === undefined) {
+    throw new Error('useBatchUpload must be used within a BatchUploadProvider');
+  }
+  return context;
+}
@@ -2,39 +2,197 @@ import React, { createContext, useContext, useEffect, useState, type PropsWithCh
 import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-interface Settings {
+import type { UrlListFormat } from '@/services/batch';
+import { DEFAULT_IMAGE_PROCESSING, type ImageProcessingSettings } from '@/services/imageProcessing';
+import type { ShareRule } from '@/services/shareRules';
+
+export interface ServerTimeouts {
+  /** Abort when nothing was sent or received for this many seconds. */
+  idleSeconds: number;
+  /** Upper bound for a whole request, before any size-based allowance. */
+  totalSeconds: number;
+  /** Slowest upload speed to allow for when extending the total for large files. */
+  minUploadKBps: number;
+}
+
+export const DEFAULT_TIMEOUTS: ServerTimeouts = {
+  idleSeconds: 15,
+  totalSeconds: 30,
+  minUploadKBps: 50,
+};
+
+export type ServerScheme = 'https' | 'http';
+
+/**
+ * What a connection test found out about the server. "unknown" means the
+ * test could not tell, and features are then offered as usual.
+ */
+export interface ServerCapabilities {
+  checkedAt: number;
+  /** Null when the server does not expose `/version`. */
+  version: string | null;
+  auth: 'ok' | 'rejected' | 'unknown';
+  list: 'enabled' | 'disabled' | 'unknown';
+  delete: 'enabled' | 'rejected' | 'disabled' | 'unknown';
+}
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  /** Host and optional sub-path; the scheme is kept separately in `scheme`. */
   serverUrl: string;
+  scheme: ServerScheme;
   authToken: string;
   deleteToken: string;
   expiry: string;
   isOneShot: boolean;
+  /** Naming template for uploads, e.g. "{date}-{original}"; empty keeps server-side naming. */
+  nameTemplate: string;
+  /** Remove EXIF and XMP metadata, such as GPS location, from images before upload. */
+  stripMetadata: boolean;
+  /** Resizing and recompression applied to image uploads. */
+  imageProcessing: ImageProcessingSettings;
+  timeouts: ServerTimeouts;
+  /** Result of the last connection test, cleared when the connection settings change. */
+  capabilities?: ServerCapabilities;
+}
+
+// Fields that decide which server is reached and how it sees us
+const CONNECTION_FIELDS = ['serverUrl', 'scheme', 'authToken', 'deleteToken'] as const;
+
+type ConnectionSettings = Pick<ServerProfile, typeof CONNECTION_FIELDS[number]>;
+
+export const hasSameConnection = (a: ConnectionSettings, b: ConnectionSettings) =>
+  CONNECTION_FIELDS.every(field => a[field] === b[field]);
+
+// Tokens live in SecureStore, everything else is persisted as JSON in AsyncStorage
+type StoredProfile = Omit<ServerProfile, 'authToken' | 'deleteToken'>;
+
+interface Settings {
+  profiles: ServerProfile[];
+  activeProfileId: string;
+  /** Show shared content for review instead of uploading it right away. */
+  reviewShares: boolean;
+  /** Checked in order for every share; they take precedence over `reviewShares`. */
+  shareRules: ShareRule[];
+  /** How the links of several files are copied at once. */
+  urlListFormat: UrlListFormat;
 }
 
 interface SettingsContextType {
   settings: Settings;
-  setServerUrl: (url: string) => Promise<void>;
-  setAuthToken: (token: string) => Promise<void>;
-  setDeleteToken: (token: string) => Promise<void>;
+  activeProfile: ServerProfile;
+  addProfile: (profile?: Partial<Omit<ServerProfile, 'id'>>) => Promise<ServerProfile>;
+  updateProfile: (id: string, changes: Partial<Omit<ServerProfile, 'id'>>) => Promise<void>;
+  removeProfile: (id: string) => Promise<void>;
+  setActiveProfile: (id: string) => Promise<void>;
   setExpiry: (expiry: string) => Promise<void>;
   setIsOneShot: (isOneShot: boolean) => Promise<void>;
+  setReviewShares: (reviewShares: boolean) => Promise<void>;
+  setShareRules: (shareRules: ShareRule[]) => Promise<void>;
+  setUrlListFormat: (urlListFormat: UrlListFormat) => Promise<void>;
   isLoading: boolean;
 }
 
-const defaultSettings: Settings = {
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+const REVIEW_SHARES_KEY = 'reviewShares';
+const SHARE_RULES_KEY = 'shareRules';
+const URL_LIST_FORMAT_KEY = 'urlListFormat';
+
+const authTokenKey = (id: string) => `authToken_${id}`;
+const deleteTokenKey = (id: string) => `deleteToken_${id}`;
+
+const generateProfileId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const createProfile = (values: Partial<Omit<ServerProfile, 'id'>> = {}): ServerProfile => ({
+  id: generateProfileId(),
+  name: 'Default',
   serverUrl: '',
+  scheme: 'https',
   authToken: '',
   deleteToken: '',
   expiry: '',
   isOneShot: false,
+  nameTemplate: '',
+  stripMetadata: true,
+  imageProcessing: DEFAULT_IMAGE_PROCESSING,
+  timeouts: DEFAULT_TIMEOUTS,
+  ...values,
+});
+
+const defaultProfile: ServerProfile = { ...createProfile(), id: 'default' };
+
+const defaultSettings: Settings = {
+  profiles: [defaultProfile],
+  activeProfileId: defaultProfile.id,
+  reviewShares: false,
+  shareRules: [],
+  urlListFormat: 'lines',
 };
 
+const toStoredProfile = ({ authToken, deleteToken, ...stored }: ServerProfile): StoredProfile => stored;
+
+async function persistProfiles(profiles: ServerProfile[]): Promise<void> {
+  await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles.map(toStoredProfile)));
+}
+
+async function persistTokens(profile: ServerProfile): Promise<void> {
+  await Promise.all([
+    SecureStore.setItemAsync(authTokenKey(profile.id), profile.authToken),
+    SecureStore.setItemAsync(deleteTokenKey(profile.id), profile.deleteToken),
+  ]);
+}
+
+/**
+ * Builds a single profile from the keys used before profiles existed, so
+ * existing installs keep their server configuration after updating.
+ */
+async function migrateLegacySettings(): Promise<ServerProfile> {
+  const [serverUrl, authToken, deleteToken, expiry, isOneShotStr] = await Promise.all([
+    AsyncStorage.getItem('serverUrl'),
+    SecureStore.getItemAsync('authToken'),
+    SecureStore.getItemAsync('deleteToken'),
+    AsyncStorage.getItem('expiry'),
+    AsyncStorage.getItem('isOneShot'),
+  ]);
+
+  const profile = createProfile({
+    serverUrl: serverUrl || '',
+    authToken: authToken || '',
+    deleteToken: deleteToken || '',
+    expiry: expiry || '',
+    isOneShot: isOneShotStr ? JSON.parse(isOneShotStr) : false,
+  });
+
+  await Promise.all([
+    persistProfiles([profile]),
+    persistTokens(profile),
+    AsyncStorage.setItem(ACTIVE_PROFILE_KEY, profile.id),
+  ]);
+
+  // Only once the profile holds them, so a failed save can't lose the tokens
+  await Promise.all([
+    SecureStore.deleteItemAsync('authToken'),
+    SecureStore.deleteItemAsync('deleteToken'),
+  ]);
+
+  return profile;
+}
+
 export const SettingsContext = createContext<SettingsContextType>({
   settings: defaultSettings,
-  setServerUrl: async () => {},
-  setAuthToken: async () => {},
-  setDeleteToken: async () => {},
+  activeProfile: defaultProfile,
+  addProfile: async () => defaultProfile,
+  updateProfile: async () => {},
+  removeProfile: async () => {},
+  setActiveProfile: async () => {},
   setExpiry: async () => {},
   setIsOneShot: async () => {},
+  setReviewShares: async () => {},
+  setShareRules: async () => {},
+  setUrlListFormat: async () => {},
   isLoading: true,
 });
 
@@ -42,6 +200,8 @@ export function SettingsProvider({ children }: Readonly<PropsWithChildren>) {
   const [settings, setSettings] = useState<Settings>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
   const mountedRef = React.useRef(true);
+  // Mirrors the latest settings so sequential async updates never persist a stale list
+  const settingsRef = React.useRef<Settings>(defaultSettings);
 
   useEffect(() => {
     return () => {
@@ -49,26 +209,69 @@ export function SettingsProvider({ children }: Readonly<PropsWithChildren>) {
     };
   }, []);
 
+  const applySettings = (next: Settings) => {
+    settingsRef.current = next;
+    if (mountedRef.current) {
+      setSettings(next);
+    }
+  };
+
   useEffect(() => {
     let isMounted = true;
-    
+
     const loadSettings = async () => {
       try {
-        const [serverUrl, authToken, deleteToken, expiry, isOneShotStr] = await Promise.all([
-          AsyncStorage.getItem('serverUrl'),
-          SecureStore.getItemAsync('authToken'),
-          SecureStore.getItemAsync('deleteToken'),
-          AsyncStorage.getItem('expiry'),
-          AsyncStorage.getItem('isOneShot'),
+        const [profilesStr, activeProfileId, reviewSharesStr, shareRulesStr, urlListFormat] = await Promise.all([
+          AsyncStorage.getItem(PROFILES_KEY),
+          AsyncStorage.getItem(ACTIVE_PROFILE_KEY),
+          AsyncStorage.getItem(REVIEW_SHARES_KEY),
+          AsyncStorage.getItem(SHARE_RULES_KEY),
+          AsyncStorage.getItem(URL_LIST_FORMAT_KEY),
         ]);
 
+        let profiles: ServerProfile[];
+        if (profilesStr) {
+          const stored: StoredProfile[] = JSON.parse(profilesStr);
+          profiles = await Promise.all(
+            stored.map(async (profile) => {
+              const [authToken, deleteToken] = await Promise.all([
+                SecureStore.getItemAsync(authTokenKey(profile.id)),
+                SecureStore.getItemAsync(deleteTokenKey(profile.id)),
+              ]);
+              return {
+                ...profile,
+                authToken: authToken || '',
+                deleteToken: deleteToken || '',
+                // Profiles saved before timeouts were configurable have none stored
+                timeouts: { ...DEFAULT_TIMEOUTS, ...profile.timeouts },
+                // HTTPS was always enforced before the scheme became a setting
+                scheme: profile.scheme ?? 'https',
+                nameTemplate: profile.nameTemplate ?? '',
+                stripMetadata: profile.stripMetadata ?? true,
+                imageProcessing: { ...DEFAULT_IMAGE_PROCESSING, ...profile.imageProcessing },
+              };
+            })
+          );
+        } else {
+          profiles = [await migrateLegacySettings()];
+        }
+
+        if (profiles.length === 0) {
+          profiles = [createProfile()];
+          await Promise.all([persistProfiles(profiles), persistTokens(profiles[0])]);
+        }
+
+        const activeId = profiles.some(p => p.id === activeProfileId)
+          ? activeProfileId!
+          : profiles[0].id;
+
         if (isMounted) {
-          setSettings({
-            serverUrl: serverUrl || '',
-            authToken: authToken || '',
-            deleteToken: deleteToken || '',
-            expiry: expiry || '',
-            isOneShot: isOneShotStr ? JSON.parse(isOneShotStr) : false,
+          applySettings({
+            profiles,
+            activeProfileId: activeId,
+            reviewShares: reviewSharesStr ? JSON.parse(reviewSharesStr) : false,
+            shareRules: shareRulesStr ? JSON.parse(shareRulesStr) : [],
+            urlListFormat: (urlListFormat as UrlListFormat | null) ?? 'lines',
           });
         }
       } catch (error) {
@@ -89,76 +292,136 @@ export function SettingsProvider({ children }: Readonly<PropsWithChildren>) {
     };
   }, []);
 
-  const setServerUrl = async (url: string) => {
+  const activeProfile =
+    settings.profiles.find(p => p.id === settings.activeProfileId) ?? settings.profiles[0];
+
+  const addProfile = async (values: Partial<Omit<ServerProfile, 'id'>> = {}) => {
     try {
-      await AsyncStorage.setItem('serverUrl', url);
-      if (mountedRef.current) {
-        setSettings(prev => ({ ...prev, serverUrl: url }));
-      }
+      const profile = createProfile({ name: `Server ${settingsRef.current.profiles.length + 1}`, ...values });
+      const profiles = [...settingsRef.current.profiles, profile];
+      await Promise.all([
+        persistProfiles(profiles),
+        persistTokens(profile),
+        AsyncStorage.setItem(ACTIVE_PROFILE_KEY, profile.id),
+      ]);
+      applySettings({ ...settingsRef.current, profiles, activeProfileId: profile.id });
+      return profile;
     } catch (error) {
-      console.error('Failed to save server URL:', error);
+      console.error('Failed to add profile:', error);
       throw error;
     }
   };
 
-  const setAuthToken = async (token: string) => {
+  const updateProfile = async (id: string, changes: Partial<Omit<ServerProfile, 'id'>>) => {
     try {
-      await SecureStore.setItemAsync('authToken', token);
-      if (mountedRef.current) {
-        setSettings(prev => ({ ...prev, authToken: token }));
+      const current = settingsRef.current;
+      const existing = current.profiles.find(p => p.id === id);
+      if (!existing) {
+        throw new Error(`Unknown profile: ${id}`);
+      }
+
+      const updated = { ...existing, ...changes };
+      // Test results describe the old connection unless fresh ones come with the change
+      if (!hasSameConnection(updated, existing) && !('capabilities' in changes)) {
+        delete updated.capabilities;
+      }
+      const profiles = current.profiles.map(p => (p.id === id ? updated : p));
+      const writes: Promise<void>[] = [persistProfiles(profiles)];
+      if ('authToken' in changes || 'deleteToken' in changes) {
+        writes.push(persistTokens(updated));
       }
+      await Promise.all(writes);
+      applySettings({ ...current, profiles });
     } catch (error) {
-      console.error('Failed to save auth token:', error);
+      console.error('Failed to save profile:', error);
       throw error;
     }
   };
 
-  const setDeleteToken = async (token: string) => {
+  const removeProfile = async (id: string) => {
     try {
-      await SecureStore.setItemAsync('deleteToken', token);
-      if (mountedRef.current) {
-        setSettings(prev => ({ ...prev, deleteToken: token }));
+      const current = settingsRef.current;
+      if (current.profiles.length <= 1) {
+        throw new Error('At least one server profile is required');
       }
+
+      const profiles = current.profiles.filter(p => p.id !== id);
+      const activeProfileId = current.activeProfileId === id ? profiles[0].id : current.activeProfileId;
+      await Promise.all([
+        persistProfiles(profiles),
+        AsyncStorage.setItem(ACTIVE_PROFILE_KEY, activeProfileId),
+        SecureStore.deleteItemAsync(authTokenKey(id)),
+        SecureStore.deleteItemAsync(deleteTokenKey(id)),
+      ]);
+      applySettings({ ...current, profiles, activeProfileId });
+    } catch (error) {
+      console.error('Failed to remove profile:', error);
+      throw error;
     }
-    catch (error) {
-      console.error('Failed to save delete token:', error);
+  };
+
+  const setActiveProfile = async (id: string) => {
+    try {
+      await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, id);
+      applySettings({ ...settingsRef.current, activeProfileId: id });
+    } catch (error) {
+      console.error('Failed to switch profile:', error);
       throw error;
     }
   };
 
   const setExpiry = async (expiry: string) => {
+    await updateProfile(settingsRef.current.activeProfileId, { expiry });
+  };
+
+  const setIsOneShot = async (isOneShot: boolean) => {
+    await updateProfile(settingsRef.current.activeProfileId, { isOneShot });
+  };
+
+  const setReviewShares = async (reviewShares: boolean) => {
     try {
-      await AsyncStorage.setItem('expiry', expiry);
-      if (mountedRef.current) {
-        setSettings(prev => ({ ...prev, expiry }));
-      }
+      await AsyncStorage.setItem(REVIEW_SHARES_KEY, JSON.stringify(reviewShares));
+      applySettings({ ...settingsRef.current, reviewShares });
     } catch (error) {
-      console.error('Failed to save expiry:', error);
+      console.error('Failed to save share review setting:', error);
       throw error;
     }
   };
 
-  const setIsOneShot = async (isOneShot: boolean) => {
+  const setShareRules = async (shareRules: ShareRule[]) => {
     try {
-      await AsyncStorage.setItem('isOneShot', JSON.stringify(isOneShot));
-      if (mountedRef.current) {
-        setSettings(prev => ({ ...prev, isOneShot }));
-      }
+      await AsyncStorage.setItem(SHARE_RULES_KEY, JSON.stringify(shareRules));
+      applySettings({ ...settingsRef.current, shareRules });
+    } catch (error) {
+      console.error('Failed to save share rules:', error);
+      throw error;
+    }
+  };
+
+  const setUrlListFormat = async (urlListFormat: UrlListFormat) => {
+    try {
+      await AsyncStorage.setItem(URL_LIST_FORMAT_KEY, urlListFormat);
+      applySettings({ ...settingsRef.current, urlListFormat });
     } catch (error) {
-      console.error('Failed to save isOneShot:', error);
+      console.error('Failed to save link list format:', error);
       throw error;
     }
   };
 
   return (
-    <SettingsContext.Provider 
+    <SettingsContext.Provider
       value={{
         settings,
-        setServerUrl,
-        setAuthToken,
-        setDeleteToken,
+        activeProfile,
+        addProfile,
+        updateProfile,
+        removeProfile,
+        setActiveProfile,
         setExpiry,
         setIsOneShot,
+        setReviewShares,
+        setShareRules,
+        setUrlListFormat,
         isLoading,
       }}
     >
@@ -0,0 +1,184 @@
+import React, { createContext, useContext, useState, type PropsWithChildren } from 'react';
+import { Alert, ToastAndroid } from 'react-native';
+import { router } from 'expo-router';
+
+import type { ServerProfile } from '@/contexts/SettingsContext';
+import { useBatchUpload } from '@/contexts/BatchUploadContext';
+import { useUploadQueue } from '@/contexts/UploadQueueContext';
+import { CancelledError } from '@/services/api';
+import { archiveFileName, withArchive } from '@/services/archive';
+import { resolveUploadFilename } from '@/services/filename';
+import type { ShareRule } from '@/services/shareRules';
+import type { PickedFile, SharedContent, SharedUrlMode } from '@/services/sharing';
+
+/** How shared content is sent; the saved profile settings unless changed in review. */
+export interface ShareChoices {
+  profile: ServerProfile;
+  expiry: string;
+  oneshot: boolean;
+  /** Custom name for a text or single file upload. */
+  filename?: string;
+  urlMode: SharedUrlMode;
+  /** How several files go up; "ask" lets the user pick in a dialog. */
+  multipleFiles: 'ask' | 'archive' | 'separately';
+}
+
+interface PendingShare {
+  content: SharedContent;
+  /** What the review screen starts from. */
+  choices: ShareChoices;
+}
+
+interface ShareReviewContextType {
+  /** Shared content waiting on the review screen. */
+  pendingShare: PendingShare | null;
+  reviewShare: (content: SharedContent, choices: ShareChoices) => void;
+  dismissShare: () => void;
+  sendShare: (content: SharedContent, choices: ShareChoices) => Promise<void>;
+}
+
+export const ShareReviewContext = createContext<ShareReviewContextType>({
+  pendingShare: null,
+  reviewShare: () => {},
+  dismissShare: () => {},
+  sendShare: async () => {},
+});
+
+export const defaultShareChoices = (profile: ServerProfile): ShareChoices => ({
+  profile,
+  expiry: profile.expiry,
+  oneshot: profile.isOneShot,
+  urlMode: 'shorten',
+  multipleFiles: 'ask',
+});
+
+/** The defaults with a matching rule's profile, expiry and oneshot applied. */
+export function ruleShareChoices(rule: ShareRule | null, profiles: ServerProfile[], activeProfile: ServerProfile): ShareChoices {
+  const choices = defaultShareChoices(profiles.find(profile => profile.id === rule?.profileId) ?? activeProfile);
+  return {
+    ...choices,
+    expiry: rule?.expiry ?? choices.expiry,
+    oneshot: rule?.oneshot ?? choices.oneshot,
+  };
+}
+
+// A null result means the upload was queued for a later retry
+const reportResult = (url: string | null, message: string) => {
+  if (url) {
+    console.log(message, url);
+  } else {
+    ToastAndroid.show('Upload queued, it will be retried when back online', ToastAndroid.LONG);
+  }
+};
+
+export function ShareReviewProvider({ children }: Readonly<PropsWithChildren>) {
+  const { submitUpload } = useUploadQueue();
+  const { startBatch } = useBatchUpload();
+  const [pendingShare, setPendingShare] = useState<PendingShare | null>(null);
+
+  const reviewShare = (content: SharedContent, choices: ShareChoices) => {
+    setPendingShare({ content, choices });
+    router.push('/share-review');
+  };
+
+  const dismissShare = () => {
+    setPendingShare(null);
+  };
+
+  const sendFiles = async (files: PickedFile[], choices: ShareChoices) => {
+    const { profile } = choices;
+    const options = { expiry: choices.expiry, oneshot: choices.oneshot };
+
+    const uploadSeparately = () => {
+      if (startBatch(files, profile, options)) {
+        router.push('/batch');
+      } else {
+        ToastAndroid.show('Another batch upload is still running', ToastAndroid.LONG);
+      }
+    };
+    const uploadArchive = async () => {
+      try {
+        const name = archiveFileName(choices.filename ?? '', 'zip');
+        ToastAndroid.show(`Packing ${files.length} files into ${name}`, ToastAndroid.SHORT);
+        const url = await withArchive(files, name, 'zip', (uri, contents) =>
+          submitUpload('file', uri, profile, { ...options, filename: name, archiveContents: contents })
+        );
+        reportResult(url, 'Archive uploaded successfully:');
+      } catch (error) {
+        if (!(error instanceof CancelledError)) {
+          Alert.alert('Upload Error', error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    };
+
+    if (choices.multipleFiles === 'separately') {
+      uploadSeparately();
+    } else if (choices.multipleFiles === 'archive') {
+      await uploadArchive();
+    } else {
+      Alert.alert(
+        `Share ${files.length} Files`,
+        'Upload each file on its own, or pack them into one ZIP archive for a single link?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'One Archive', onPress: uploadArchive },
+          { text: 'Separately', onPress: uploadSeparately },
+        ]
+      );
+    }
+  };
+
+  const sendShare = async (content: SharedContent, choices: ShareChoices) => {
+    const { profile } = choices;
+    const options = { expiry: choices.expiry, oneshot: choices.oneshot };
+
+    switch (content.kind) {
+      case 'files': {
+        if (content.files.length > 1) {
+          // Several files get the batch view with per-file status
+          await sendFiles(content.files, choices);
+          break;
+        }
+        const [file] = content.files;
+        console.log('Uploading shared file:', file.uri);
+        const filename = resolveUploadFilename(profile, file.name, choices.filename);
+        reportResult(await submitUpload('file', file.uri, profile, { ...options, filename }), 'File uploaded successfully:');
+        break;
+      }
+      case 'text': {
+        console.log('Uploading shared text');
+        const filename = resolveUploadFilename(profile, 'text.txt', choices.filename);
+        reportResult(await submitUpload('text', content.text, profile, { ...options, filename }), 'Text uploaded successfully:');
+        break;
+      }
+      case 'url':
+        if (choices.urlMode === 'text') {
+          console.log('Uploading shared URL as text');
+          const filename = resolveUploadFilename(profile, 'text.txt', choices.filename);
+          reportResult(await submitUpload('text', content.url, profile, { ...options, filename }), 'Text uploaded successfully:');
+        } else if (choices.urlMode === 'remote') {
+          console.log('Uploading from shared URL:', content.url);
+          reportResult(await submitUpload('remote', content.url, profile, options), 'Remote file uploaded successfully:');
+        } else {
+          // Handle web URL - shorten it
+          console.log('Shortening shared URL:', content.url);
+          reportResult(await submitUpload('url', content.url, profile, options), 'URL shortened successfully:');
+        }
+        break;
+    }
+  };
+
+  return (
+    <ShareReviewContext.Provider value={{ pendingShare, reviewShare, dismissShare, sendShare }}>
+      {children}
+    </ShareReviewContext.Provider>
+  );
+}
+
+export function useShareReview(): ShareReviewContextType {
+  const context = useContext(ShareReviewContext);
+  if (context === undefined) {
+    throw new Error('useShareReview must be used within a ShareReviewProvider');
+  }
+  return context;
+}
@@ -0,0 +1,346 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, type PropsWithChildren } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+
+import { useSettings, type ServerProfile } from '@/contexts/SettingsContext';
+import { ApiError, type TransferOptions, type UploadOptions } from '@/services/api';
+import { registerRetryHandler } from '@/services/notifications';
+import {
+  createQueueId,
+  createQueuedUpload,
+  discardQueuedUpload,
+  getRetryDelay,
+  isRetryableError,
+  loadQueue,
+  performUpload,
+  savePassphrase,
+  saveQueue,
+  shouldRetry,
+  type QueuedUpload,
+  type QueuedUploadKind,
+  type QueuedUploadStatus,
+} from '@/services/uploadQueue';
+
+interface UploadQueueContextType {
+  queue: QueuedUpload[];
+  isOnline: boolean;
+  enqueueUpload: (
+    kind: QueuedUploadKind,
+    payload: string,
+    profileId: string,
+    options: UploadOptions,
+    error?: unknown,
+  ) => Promise<void>;
+  /**
+   * Uploads right away when online and queues the upload when offline or
+   * when it fails for a retryable reason. Resolves to `null` once queued.
+   * Other failures are kept as failed items for a manual retry.
+   */
+  submitUpload: (
+    kind: QueuedUploadKind,
+    payload: string,
+    profile: ServerProfile,
+    options: UploadOptions,
+    transfer?: TransferOptions,
+  ) => Promise<string | null>;
+  retryUpload: (id: string) => Promise<void>;
+  cancelUpload: (id: string) => Promise<void>;
+  updateUploadOptions: (id: string, options: UploadOptions) => Promise<void>;
+}
+
+export const UploadQueueContext = createContext<UploadQueueContextType>({
+  queue: [],
+  isOnline: true,
+  enqueueUpload: async () => {},
+  submitUpload: async () => null,
+  retryUpload: async () => {},
+  cancelUpload: async () => {},
+  updateUploadOptions: async () => {},
+});
+
+export function UploadQueueProvider({ children }: Readonly<PropsWithChildren>) {
+  const { settings, isLoading: settingsLoading } = useSettings();
+  const [queue, setQueue] = useState<QueuedUpload[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const queueRef = useRef<QueuedUpload[]>([]);
+  const profilesRef = useRef(settings.profiles);
+  const isOnlineRef = useRef(true);
+  const isProcessingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const processQueueRef = useRef<(forceId?: string) => Promise<void>>(async () => {});
+
+  profilesRef.current = settings.profiles;
+
+  const commit = useCallback((next: QueuedUpload[]) => {
+    queueRef.current = next;
+    setQueue(next);
+    saveQueue(next).catch(error => console.error('Failed to save upload queue:', error));
+  }, []);
+
+  const patchItem = useCallback((id: string, changes: Partial<QueuedUpload>) => {
+    commit(queueRef.current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, [commit]);
+
+  const scheduleNextAttempt = useCallback(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    const pending = queueRef.current.filter(item => item.status === 'pending');
+    if (pending.length === 0 || !isOnlineRef.current) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...pending.map(item => item.nextAttemptAt));
+    retryTimerRef.current = setTimeout(
+      () => processQueueRef.current(),
+      Math.max(nextAttemptAt - Date.now(), 0)
+    );
+  }, []);
+
+  const processQueue = useCallback(async (forceId?: string) => {
+    if (isProcessingRef.current) {
+      return;
+    }
+    isProcessingRef.current = true;
+
+    try {
+      const now = Date.now();
+      const due = queueRef.current.filter(item =>
+        item.id === forceId ||
+        (isOnlineRef.current && item.status === 'pending' && item.nextAttemptAt <= now)
+      );
+
+      for (const item of due) {
+        // The item may have been cancelled or edited while earlier ones were uploading
+        const current = queueRef.current.find(queued => queued.id === item.id);
+        if (!current) {
+          continue;
+        }
+
+        const profile = profilesRef.current.find(p => p.id === current.profileId);
+        if (!profile) {
+          patchItem(current.id, { status: 'failed', lastError: 'Server profile no longer exists' });
+          continue;
+        }
+
+        patchItem(current.id, { status: 'uploading' });
+        try {
+          // Observers only hear about the attempt the queue gives up on
+          await performUpload(current.kind, current.payload, profile, current.options, {
+            retryId: current.id,
+            willRetry: error => shouldRetry(error, current.attempts + 1),
+          });
+          commit(queueRef.current.filter(queued => queued.id !== current.id));
+          await discardQueuedUpload(current).catch(error =>
+            console.error('Failed to clean up queued file:', error)
+          );
+        } catch (error) {
+          const attempts = current.attempts + 1;
+          patchItem(current.id, {
+            status: shouldRetry(error, attempts) ? 'pending' : 'failed',
+            attempts,
+            nextAttemptAt: Date.now() + getRetryDelay(attempts),
+            lastError: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    } finally {
+      isProcessingRef.current = false;
+      scheduleNextAttempt();
+    }
+  }, [commit, patchItem, scheduleNextAttempt]);
+
+  processQueueRef.current = processQueue;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadQueue()
+      .then(stored => {
+        if (isMounted) {
+          queueRef.current = stored;
+          setQueue(stored);
+        }
+      })
+      .catch(error => console.error('Failed to load upload queue:', error))
+      .finally(() => {
+        if (isMounted) {
+          setIsLoaded(true);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+    };
+  }, []);
+
+  // Retry whenever connectivity returns or the app comes back to the foreground
+  useEffect(() => {
+    if (!isLoaded || settingsLoading) {
+      return;
+    }
+
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      const cameOnline = online && !isOnlineRef.current;
+      isOnlineRef.current = online;
+      setIsOnline(online);
+      if (cameOnline) {
+        // Connectivity is back, so don't make items sit out their backoff
+        commit(queueRef.current.map(item =>
+          item.status === 'pending' ? { ...item, nextAttemptAt: Date.now() } : item
+        ));
+      }
+      processQueue();
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        processQueue();
+      }
+    });
+
+    return () => {
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }, [isLoaded, settingsLoading, commit, processQueue]);
+
+  const queueUpload = async (
+    kind: QueuedUploadKind,
+    payload: string,
+    profileId: string,
+    options: UploadOptions,
+    error?: unknown,
+    id?: string,
+    status: QueuedUploadStatus = 'pending',
+  ) => {
+    try {
+      const message = error === undefined ? undefined : error instanceof Error ? error.message : 'Unknown error';
+      const item = await createQueuedUpload(kind, payload, profileId, options, message, id);
+      commit([...queueRef.current, { ...item, status }]);
+      scheduleNextAttempt();
+    } catch (error) {
+      console.error('Failed to queue upload:', error);
+      throw error;
+    }
+  };
+
+  const enqueueUpload = (
+    kind: QueuedUploadKind,
+    payload: string,
+    profileId: string,
+    options: UploadOptions,
+    error?: unknown,
+  ) => queueUpload(kind, payload, profileId, options, error);
+
+  const submitUpload = async (
+    kind: QueuedUploadKind,
+    payload: string,
+    profile: ServerProfile,
+    options: UploadOptions,
+    transfer: TransferOptions = {},
+  ) => {
+    // Queueing can't fix a missing configuration, so fail right away
+    if (!profile.serverUrl) {
+      throw new ApiError('Server URL must be configured');
+    }
+
+    if (!isOnlineRef.current) {
+      await enqueueUpload(kind, payload, profile.id, options);
+      return null;
+    }
+
+    // A batch keeps its own failed files, so only other uploads get a Retry action
+    const retryId = transfer.silent ? undefined : createQueueId();
+    // Kept before the error notification goes up, so its Retry always finds the item
+    const keepFailed = retryId
+      ? (error: ApiError) => queueUpload(kind, payload, profile.id, options, error, retryId, 'failed').then(() => true, () => false)
+      : undefined;
+    try {
+      return await performUpload(kind, payload, profile, options, {
+        ...transfer,
+        retryId,
+        willRetry: isRetryableError,
+        keepFailed,
+      });
+    } catch (error) {
+      if (isRetryableError(error)) {
+        await queueUpload(kind, payload, profile.id, options, error, retryId);
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // A manual retry starts over with a full set of attempts
+  const retryUpload = useCallback(async (id: string) => {
+    patchItem(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    await processQueue(id);
+  }, [patchItem, processQueue]);
+
+  // Error notifications can only retry what the queue has loaded
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+    return registerRetryHandler(async id => {
+      if (!queueRef.current.some(item => item.id === id)) {
+        return false;
+      }
+      await retryUpload(id);
+      return true;
+    });
+  }, [isLoaded, retryUpload]);
+
+  const cancelUpload = async (id: string) => {
+    const item = queueRef.current.find(queued => queued.id === id);
+    if (!item) {
+      return;
+    }
+
+    commit(queueRef.current.filter(queued => queued.id !== id));
+    scheduleNextAttempt();
+    try {
+      await discardQueuedUpload(item);
+    } catch (error) {
+      console.error('Failed to clean up queued file:', error);
+    }
+  };
+
+  const updateUploadOptions = async (id: string, options: UploadOptions) => {
+    await savePassphrase(id, options);
+    patchItem(id, { options, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    scheduleNextAttempt();
+  };
+
+  return (
+    <UploadQueueContext.Provider
+      value={{
+        queue,
+        isOnline,
+        enqueueUpload,
+        submitUpload,
+        retryUpload,
+        cancelUpload,
+        updateUploadOptions,
+      }}
+    >
+      {children}
+    </UploadQueueContext.Provider>
+  );
+}
+
+export function useUploadQueue(): UploadQueueContextType {
+  const context = useContext(UploadQueueContext);
+  if (context === undefined) {
+    throw new Error('useUploadQueue must be used within an UploadQueueProvider');
+  }
+  return context;
+}
@@ -0,0 +1 @@
+export { useBatchUpload, BatchUploadProvider } from '@/contexts/BatchUploadContext';
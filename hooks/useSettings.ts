@@ -1 +1,2 @@
-export { useSettings, SettingsProvider } from '@/contexts/SettingsContext';
\ No newline at end of file
+export { useSettings, SettingsProvider, hasSameConnection } from '@/contexts/SettingsContext';
+export type { ServerCapabilities, ServerProfile, ServerScheme, ServerTimeouts } from '@/contexts/SettingsContext';
\ No newline at end of file
@@ -0,0 +1 @@
+export { useShareReview, ShareReviewProvider, defaultShareChoices, ruleShareChoices } from '@/contexts/ShareReviewContext';
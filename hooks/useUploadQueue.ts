@@ -0,0 +1 @@
+export { useUploadQueue, UploadQueueProvider } from '@/contexts/UploadQueueContext';
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * Lets profiles reach rustypaste servers over plain HTTP through a network
+ * security config, so `expo prebuild` keeps it in the generated manifest.
+ * Server hosts are entered at runtime, so cleartext cannot be limited to a
+ * domain list; the config still pins trust to the system certificates.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { withAndroidManifest, withDangerousMod } = require('expo/config-plugins');
+
+const CONFIG_NAME = 'network_security_config';
+
+const NETWORK_SECURITY_CONFIG = `<?xml version="1.0" encoding="utf-8"?>
+<network-security-config>
+  <base-config cleartextTrafficPermitted="true">
+    <trust-anchors>
+      <certificates src="system" />
+    </trust-anchors>
+  </base-config>
+</network-security-config>
+`;
+
+const withNetworkSecurityConfigFile = (config) =>
+  withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const directory = path.join(config.modRequest.platformProjectRoot, 'app/src/main/res/xml');
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(path.join(directory, `${CONFIG_NAME}.xml`), NETWORK_SECURITY_CONFIG);
+      return config;
+    },
+  ]);
+
+const withNetworkSecurityConfigManifest = (config) =>
+  withAndroidManifest(config, (config) => {
+    const [application] = config.modResults.manifest.application;
+    application.$['android:networkSecurityConfig'] = `@xml/${CONFIG_NAME}`;
+    // Superseded by the config on every Android version Expo supports
+    delete application.$['android:usesCleartextTraffic'];
+    return config;
+  });
+
+module.exports = (config) => withNetworkSecurityConfigManifest(withNetworkSecurityConfigFile(config));
@@ -0,0 +1,248 @@
+import * as FileSystem from 'expo-file-system';
+
+import type { ServerProfile } from '@/contexts/SettingsContext';
+import {
+  CancelledError,
+  FileTooLargeError,
+  MAX_ENCRYPTED_FILE_BYTES,
+  RustypasteClient,
+  type Transport,
+  type TransportRequest,
+  type UploadObserver,
+} from '../api';
+
+jest.mock('expo-file-system', () => ({
+  getInfoAsync: jest.fn(async () => ({ exists: true, size: 4 })),
+  readAsStringAsync: jest.fn(),
+  EncodingType: { Base64: 'base64' },
+}));
+
+const profile: ServerProfile = {
+  id: 'test',
+  name: 'Test',
+  serverUrl: 'paste.example.com',
+  scheme: 'https',
+  authToken: 'auth',
+  deleteToken: 'delete',
+  expiry: '',
+  isOneShot: false,
+  nameTemplate: '',
+  stripMetadata: false,
+  imageProcessing: { enabled: false, maxDimension: 2048, format: 'jpeg', quality: 80 },
+  timeouts: { idleSeconds: 15, totalSeconds: 30, minUploadKBps: 50 },
+};
+
+const respondWith = (status: number, body: string) => {
+  const requests: TransportRequest[] = [];
+  const transport: Transport = async (request) => {
+    requests.push(request);
+    return { status, statusText: '', text: async () => body };
+  };
+  return { transport, requests };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('sends uploads to the server with auth and expiry headers', async () => {
+  const { transport, requests } = respondWith(200, 'https://paste.example.com/abc.txt');
+  const client = new RustypasteClient(profile, { transport });
+
+  const url = await client.uploadText('hello', { expiry: '10min', oneshot: true, filename: 'notes.txt' });
+
+  expect(url).toBe('https://paste.example.com/abc.txt');
+  expect(requests).toHaveLength(1);
+  expect(requests[0].url).toBe('https://paste.example.com/');
+  expect(requests[0].method).toBe('POST');
+  expect(requests[0].headers).toMatchObject({ Authorization: 'auth', expire: '10min', filename: 'notes.txt' });
+  expect(requests[0].body?.has('oneshot')).toBe(true);
+  expect(requests[0].body?.has('file')).toBe(false);
+});
+
+it('reports successes and failures to observers', async () => {
+  const observer: UploadObserver = { onUploadSuccess: jest.fn(), onUploadError: jest.fn() };
+
+  const ok = new RustypasteClient(profile, { ...respondWith(200, 'https://short'), observers: [observer] });
+  await ok.shortenUrl('https://example.com/long');
+  expect(observer.onUploadSuccess).toHaveBeenCalledWith(
+    expect.objectContaining({ kind: 'url', name: 'https://example.com/long', url: 'https://short' }),
+  );
+
+  const failing = new RustypasteClient(profile, { ...respondWith(413, 'too large'), observers: [observer] });
+  await expect(failing.uploadFile('file:///tmp/data.bin')).rejects.toThrow('Upload failed: too large');
+  expect(observer.onUploadError).toHaveBeenCalledWith(
+    expect.objectContaining({ kind: 'file', name: 'data.bin', size: 4 }),
+  );
+});
+
+it('tells observers whether a failed upload will be retried', async () => {
+  const observer: UploadObserver = { onUploadError: jest.fn() };
+  const client = new RustypasteClient(profile, { ...respondWith(503, 'busy'), observers: [observer] });
+
+  await expect(client.uploadText('hello', {}, { willRetry: error => error.statusCode === 503 })).rejects.toThrow();
+  await expect(client.uploadText('hello')).rejects.toThrow();
+  expect(observer.onUploadError).toHaveBeenNthCalledWith(1, expect.objectContaining({ willRetry: true }));
+  expect(observer.onUploadError).toHaveBeenNthCalledWith(2, expect.objectContaining({ willRetry: false }));
+});
+
+it('keeps plain HTTP and sub-paths when building request URLs', async () => {
+  const { transport, requests } = respondWith(200, '');
+  const lan = { ...profile, serverUrl: 'http://192.168.1.10:8000/paste/', scheme: 'http' as const };
+  const client = new RustypasteClient(lan, { transport });
+
+  await client.deleteFile('my file.txt');
+
+  expect(requests[0].url).toBe('http://192.168.1.10:8000/paste/my%20file.txt');
+  expect(requests[0].headers.Authorization).toBe('delete');
+});
+
+it('explains a missing list endpoint', async () => {
+  const client = new RustypasteClient(profile, respondWith(404, ''));
+
+  await expect(client.listUploads()).rejects.toMatchObject({
+    message: 'Make sure expose_list is set to true in your server config',
+    statusCode: 404,
+  });
+});
+
+it('keeps a failed upload for a retry before observers hear of it', async () => {
+  const calls: string[] = [];
+  const observer: UploadObserver = {
+    onUploadError: jest.fn(async () => { calls.push('notified'); }),
+  };
+  const client = new RustypasteClient(profile, { ...respondWith(401, 'unauthorized'), observers: [observer] });
+  const keepFailed = jest.fn(async () => { calls.push('kept'); return true; });
+
+  await expect(client.uploadText('hello', {}, { retryId: 'queued-1', keepFailed })).rejects.toThrow();
+  expect(calls).toEqual(['kept', 'notified']);
+  expect(observer.onUploadError).toHaveBeenLastCalledWith(expect.objectContaining({ retryId: 'queued-1' }));
+
+  await expect(client.uploadText('hello', {}, { retryId: 'queued-2', keepFailed: async () => false })).rejects.toThrow();
+  expect(observer.onUploadError).toHaveBeenLastCalledWith(expect.objectContaining({ retryId: undefined }));
+});
+
+it('treats an aborted upload as cancelled rather than failed', async () => {
+  const transport: Transport = (request) =>
+    new Promise((_, reject) => {
+      request.signal.addEventListener('abort', () => {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    });
+  const observer: UploadObserver = { onUploadError: jest.fn() };
+  const client = new RustypasteClient(profile, { transport, observers: [observer] });
+  const controller = new AbortController();
+
+  const upload = client.uploadText('hello', {}, { signal: controller.signal });
+  controller.abort();
+
+  await expect(upload).rejects.toBeInstanceOf(CancelledError);
+  expect(observer.onUploadError).not.toHaveBeenCalled();
+});
+
+it('reports a file that fails to prepare and stops one cancelled while preparing', async () => {
+  const { transport, requests } = respondWith(200, 'https://paste/data.bin');
+  const observer: UploadObserver = { onUploadError: jest.fn(), onUploadSettled: jest.fn() };
+  const client = new RustypasteClient(profile, { transport, observers: [observer] });
+
+  jest.mocked(FileSystem.readAsStringAsync).mockRejectedValueOnce(new Error('File is gone'));
+  await expect(client.uploadFile('file:///tmp/data.bin', { encryption: { passphrase: 'secret' } }))
+    .rejects.toThrow('File is gone');
+  expect(observer.onUploadError).toHaveBeenCalledWith(expect.objectContaining({ name: 'data.bin' }));
+
+  const controller = new AbortController();
+  jest.mocked(FileSystem.getInfoAsync).mockImplementationOnce(async () => {
+    controller.abort();
+    return { exists: true, size: 4 } as FileSystem.FileInfo;
+  });
+  await expect(client.uploadFile('file:///tmp/data.bin', {}, { signal: controller.signal }))
+    .rejects.toBeInstanceOf(CancelledError);
+  expect(requests).toHaveLength(0);
+  expect(observer.onUploadError).toHaveBeenCalledTimes(1);
+  expect(observer.onUploadSettled).toHaveBeenCalledTimes(2);
+});
+
+it('refuses to encrypt a file too large to hold in memory', async () => {
+  const { transport, requests } = respondWith(200, 'https://paste/data.bin');
+  const client = new RustypasteClient(profile, { transport });
+  jest.mocked(FileSystem.getInfoAsync).mockResolvedValueOnce({ exists: true, size: MAX_ENCRYPTED_FILE_BYTES + 1 } as FileSystem.FileInfo);
+
+  await expect(client.uploadFile('file:///tmp/video.mp4', { encryption: {} })).rejects.toBeInstanceOf(FileTooLargeError);
+  expect(FileSystem.readAsStringAsync).not.toHaveBeenCalled();
+  expect(requests).toHaveLength(0);
+});
+
+it('ignores progress reported after the upload settled', async () => {
+  let reportProgress: TransportRequest['onUploadProgress'];
+  const transport: Transport = async (request) => {
+    reportProgress = request.onUploadProgress;
+    reportProgress?.(2, 4);
+    return { status: 200, statusText: '', text: async () => 'https://paste/data.bin' };
+  };
+  const observer: UploadObserver = { onUploadProgress: jest.fn() };
+  const client = new RustypasteClient(profile, { transport, observers: [observer] });
+
+  await client.uploadFile('file:///tmp/data.bin');
+  reportProgress?.(4, 4);
+
+  expect(observer.onUploadProgress).toHaveBeenCalledTimes(1);
+});
+
+describe('timeouts', () => {
+  // Never answers; `sent` marks the body as fully uploaded right away
+  const hangingTransport = (sent: boolean): Transport => (request) =>
+    new Promise((_, reject) => {
+      if (sent) request.onUploadComplete?.();
+      request.signal.addEventListener('abort', () => {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    });
+
+  const settle = (promise: Promise<unknown>) => {
+    const state: { error?: Error } = {};
+    promise.catch(error => { state.error = error; });
+    return state;
+  };
+
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('aborts a request that goes quiet', async () => {
+    const client = new RustypasteClient(profile, { transport: hangingTransport(false) });
+    const state = settle(client.uploadText('hello'));
+
+    await jest.advanceTimersByTimeAsync(15_000);
+    expect(state.error?.message).toBe('No response from server for 15 seconds');
+  });
+
+  it('lets the server take its time once the upload is sent', async () => {
+    const client = new RustypasteClient(profile, { transport: hangingTransport(true) });
+    const state = settle(client.uploadText('hello'));
+
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(state.error).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(state.error?.message).toBe('Request timed out after 30 seconds');
+  });
+
+  it('extends the total timeout by the time the upload takes at the slowest speed', async () => {
+    const slow = { ...profile, timeouts: { idleSeconds: 600, totalSeconds: 30, minUploadKBps: 1 } };
+    const client = new RustypasteClient(slow, { transport: hangingTransport(false) });
+    const state = settle(client.uploadText('x'.repeat(60 * 1024)));
+
+    await jest.advanceTimersByTimeAsync(89_000);
+    expect(state.error).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(state.error?.message).toBe('Request timed out after 90 seconds');
+  });
+});
@@ -0,0 +1,43 @@
+import { gunzipSync, strFromU8, unzipSync } from 'fflate';
+
+import { archiveFileName, createTarGz, createZip, defaultArchiveName } from '../archive';
+
+const encoder = new TextEncoder();
+const entries = [
+  { name: 'app.log', data: encoder.encode('started\nstopped\n') },
+  { name: 'screenshot.png', data: new Uint8Array(700).fill(7) },
+];
+
+it('creates a zip that unpacks to the same files', () => {
+  const files = unzipSync(createZip(entries));
+
+  expect(Object.keys(files)).toEqual(['app.log', 'screenshot.png']);
+  expect(strFromU8(files['app.log'])).toBe('started\nstopped\n');
+  expect(files['screenshot.png']).toEqual(entries[1].data);
+});
+
+it('creates a valid ustar archive', () => {
+  const tar = gunzipSync(createTarGz(entries));
+  const header = tar.subarray(0, 512);
+  const field = (start: number, length: number) => strFromU8(header.subarray(start, start + length)).replace(/\0.*$/s, '');
+
+  expect(field(0, 100)).toBe('app.log');
+  expect(parseInt(field(124, 12), 8)).toBe(16);
+  expect(field(257, 6)).toBe('ustar');
+
+  const stored = parseInt(field(148, 8), 8);
+  const computed = header.reduce((sum, byte, index) => sum + (index >= 148 && index < 156 ? 0x20 : byte), 0);
+  expect(stored).toBe(computed);
+
+  // The second entry starts after the first one's padded data
+  expect(strFromU8(tar.subarray(1024, 1024 + 14))).toBe('screenshot.png');
+  // Two headers, 512 + 1024 bytes of data and two closing blocks
+  expect(tar.length).toBe(512 * 7);
+});
+
+it('names archives', () => {
+  expect(archiveFileName('logs', 'zip')).toBe('logs.zip');
+  expect(archiveFileName('logs.tar.gz', 'tar.gz')).toBe('logs.tar.gz');
+  expect(archiveFileName('my logs', 'tar.gz')).toBe('my-logs.tar.gz');
+  expect(defaultArchiveName(new Date(2024, 2, 5, 22, 15, 0))).toBe('files-2024-03-05-221500');
+});
@@ -0,0 +1,51 @@
+import { createBatchItems, describeBatch, formatUrlList, isWhollyCancelled, mapWithConcurrency } from '../batch';
+
+it('never runs more tasks at once than the limit', async () => {
+  let running = 0;
+  let mostRunning = 0;
+  const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (value) => {
+    running++;
+    mostRunning = Math.max(mostRunning, running);
+    await new Promise(resolve => setTimeout(resolve, 10 - value));
+    running--;
+    if (value === 4) throw new Error('four');
+    return value * 2;
+  });
+
+  expect(mostRunning).toBe(3);
+  expect(results.map(result => (result.status === 'fulfilled' ? result.value : result.reason.message)))
+    .toEqual([2, 4, 6, 'four', 10, 12, 14]);
+});
+
+it('summarizes the outcome', () => {
+  const items = createBatchItems([1, 2, 3, 4].map(n => ({ uri: `file:///${n}.png`, name: `${n}.png` })));
+  items[0].status = 'done';
+  items[1].status = 'done';
+  items[2].status = 'failed';
+  items[3].status = 'queued';
+
+  expect(describeBatch(items)).toBe('2 of 4 uploaded · 1 failed · 1 queued');
+});
+
+it('only skips the summary of a batch that was cancelled outright', () => {
+  const items = createBatchItems([1, 2].map(n => ({ uri: `file:///${n}.png`, name: `${n}.png` })));
+  items.forEach(item => { item.status = 'cancelled'; });
+  expect(isWhollyCancelled(items)).toBe(true);
+
+  items[0].status = 'done';
+  expect(isWhollyCancelled(items)).toBe(false);
+});
+
+it('formats the uploaded links for the clipboard', () => {
+  const items = createBatchItems(['a.png', 'b [1].png', 'c.png'].map(name => ({ uri: `file:///${name}`, name })));
+  items[0].url = 'https://p.example/a.png';
+  items[1].url = 'https://p.example/b.png';
+
+  expect(formatUrlList(items, 'lines')).toBe('https://p.example/a.png\nhttps://p.example/b.png');
+  expect(formatUrlList(items, 'spaces')).toBe('https://p.example/a.png https://p.example/b.png');
+  expect(formatUrlList(items, 'markdown')).toBe('- [a.png](https://p.example/a.png)\n- [b \\[1\\].png](https://p.example/b.png)');
+  expect(JSON.parse(formatUrlList(items, 'json'))).toEqual([
+    { file: 'a.png', url: 'https://p.example/a.png' },
+    { file: 'b [1].png', url: 'https://p.example/b.png' },
+  ]);
+});
@@ -0,0 +1,8 @@
+import { classifyClipboardText } from '../clipboard';
+
+it('treats a lone link as a URL and anything else as text', () => {
+  expect(classifyClipboardText('  https://example.com/a?b=c \n')).toEqual({ kind: 'url', url: 'https://example.com/a?b=c' });
+  expect(classifyClipboardText('see https://example.com')).toEqual({ kind: 'text', text: 'see https://example.com' });
+  expect(classifyClipboardText('ftp://example.com')).toEqual({ kind: 'text', text: 'ftp://example.com' });
+  expect(classifyClipboardText(' \n ')).toBeNull();
+});
@@ -0,0 +1,47 @@
+import { buildCallbackUrl, deepLinkOptions, describeDeepLink, isAllowedCallbackUrl, parseDeepLink } from '../deepLink';
+
+it('parses automation links and ignores other ones', () => {
+  const request = parseDeepLink('droidypaste://upload/text?text=hello+world%21&expiry=1h&oneshot=1&x-success=tasker%3A%2F%2Fdone');
+  expect(request).toEqual({
+    action: 'upload/text',
+    params: { text: 'hello world!', expiry: '1h', oneshot: '1', 'x-success': 'tasker://done' },
+    successUrl: 'tasker://done',
+    errorUrl: undefined,
+  });
+  expect(parseDeepLink('/shorten?url=https%3A%2F%2Fexample.com')?.params.url).toBe('https://example.com');
+  expect(parseDeepLink('droidypaste://upload/clipboard')?.action).toBe('upload/clipboard');
+  expect(parseDeepLink('droidypaste://dataUrl=droidypasteShareKey')).toBeNull();
+  expect(parseDeepLink('/paste/abc.txt')).toBeNull();
+});
+
+it('falls back to the profile options and rejects a bad expiry', () => {
+  const defaults = { expiry: '24h', oneshot: false };
+  expect(deepLinkOptions(parseDeepLink('droidypaste://shorten?url=x')!, defaults))
+    .toEqual({ expiry: '24h', oneshot: false, filename: undefined });
+  expect(deepLinkOptions(parseDeepLink('droidypaste://shorten?url=x&expiry=&oneshot=true')!, defaults))
+    .toEqual({ expiry: undefined, oneshot: true, filename: undefined });
+  expect(() => deepLinkOptions(parseDeepLink('droidypaste://shorten?expiry=soon')!, defaults)).toThrow('Invalid expiry');
+});
+
+it('appends callback parameters to any existing query', () => {
+  expect(buildCallbackUrl('tasker://done', { url: 'https://p.example/a b' })).toBe('tasker://done?url=https%3A%2F%2Fp.example%2Fa%20b');
+  expect(buildCallbackUrl('app://cb?task=1', { errorMessage: 'Failed' })).toBe('app://cb?task=1&errorMessage=Failed');
+});
+
+it('only lets callbacks lead to apps', () => {
+  expect(isAllowedCallbackUrl('tasker://done')).toBe(true);
+  expect(isAllowedCallbackUrl('shortcuts://x-callback-url/run')).toBe(true);
+  expect(isAllowedCallbackUrl('https://attacker.example/collect')).toBe(false);
+  expect(isAllowedCallbackUrl(' HTTP://attacker.example')).toBe(false);
+  expect(isAllowedCallbackUrl('javascript:alert(1)')).toBe(false);
+  expect(isAllowedCallbackUrl('no-scheme')).toBe(false);
+});
+
+it('asks about the upload and where its link goes', () => {
+  expect(describeDeepLink(parseDeepLink('droidypaste://upload/clipboard')!, 'Home'))
+    .toBe('Upload your clipboard to Home?');
+  expect(describeDeepLink(parseDeepLink('droidypaste://shorten?url=https%3A%2F%2Fexample.com&x-success=tasker%3A%2F%2Fdone')!, 'Home'))
+    .toBe('Shorten https://example.com with Home?\n\nThe link will be passed to tasker://done');
+  expect(describeDeepLink(parseDeepLink(`droidypaste://upload/text?text=${'a'.repeat(100)}`)!, 'Home'))
+    .toBe(`Upload "${'a'.repeat(80)}…" to Home?`);
+});
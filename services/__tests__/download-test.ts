@@ -0,0 +1,91 @@
+import * as FileSystem from 'expo-file-system';
+
+import { downloadFiles, MAX_SAVE_BYTES, type CollisionPolicy } from '../download';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { Base64: 'base64' },
+  makeDirectoryAsync: jest.fn(async () => {}),
+  deleteAsync: jest.fn(async () => {}),
+  readAsStringAsync: jest.fn(async () => 'aGVsbG8='),
+  createDownloadResumable: jest.fn(),
+  StorageAccessFramework: {
+    createFileAsync: jest.fn(async (folder: string, name: string) => `${folder}/${encodeURIComponent(name)}`),
+    writeAsStringAsync: jest.fn(async () => {}),
+    deleteAsync: jest.fn(async () => {}),
+  },
+}));
+
+const { StorageAccessFramework: saf } = FileSystem;
+const FOLDER = 'content://folder';
+
+type ProgressListener = (progress: { totalBytesWritten: number; totalBytesExpectedToWrite: number }) => void;
+
+// Every download succeeds with the given size unless told otherwise
+const serveDownloads = (size = 5) => {
+  jest.mocked(FileSystem.createDownloadResumable).mockImplementation(((_url: string, _uri: string, _options: unknown, onProgress: ProgressListener) => {
+    let cancelled = false;
+    return {
+      cancelAsync: jest.fn(async () => { cancelled = true; }),
+      downloadAsync: jest.fn(async () => {
+        onProgress({ totalBytesWritten: size, totalBytesExpectedToWrite: size });
+        return cancelled ? undefined : { status: 200 };
+      }),
+    };
+  }) as unknown as typeof FileSystem.createDownloadResumable);
+};
+
+const download = (collisionPolicy: CollisionPolicy) =>
+  downloadFiles(
+    [{ fileName: 'notes.txt', url: 'https://paste.example.com/notes.txt' }],
+    FOLDER,
+    new Map([['notes.txt', `${FOLDER}/notes.txt`]]),
+    { collisionPolicy },
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  serveDownloads();
+});
+
+it('skips a file that is already in the folder', async () => {
+  expect(await download('skip')).toEqual([{ fileName: 'notes.txt', status: 'skipped' }]);
+  expect(FileSystem.createDownloadResumable).not.toHaveBeenCalled();
+});
+
+it('saves a colliding file under a new name', async () => {
+  expect(await download('rename')).toEqual([{ fileName: 'notes.txt', status: 'saved', savedAs: 'notes (1).txt' }]);
+  expect(saf.deleteAsync).not.toHaveBeenCalled();
+});
+
+it('deletes the replaced file only after the new one is written', async () => {
+  const calls: string[] = [];
+  jest.mocked(saf.writeAsStringAsync).mockImplementationOnce(async () => { calls.push('written'); });
+  jest.mocked(saf.deleteAsync).mockImplementationOnce(async uri => { calls.push(`deleted ${uri}`); });
+
+  const [result] = await download('replace');
+
+  expect(result.status).toBe('saved');
+  expect(calls).toEqual(['written', `deleted ${FOLDER}/notes.txt`]);
+});
+
+it('keeps the original and removes the new document when writing fails', async () => {
+  jest.mocked(saf.writeAsStringAsync).mockRejectedValueOnce(new Error('Disk full'));
+
+  expect(await download('replace')).toEqual([{ fileName: 'notes.txt', status: 'failed', error: 'Disk full' }]);
+  expect(saf.deleteAsync).toHaveBeenCalledTimes(1);
+  expect(saf.deleteAsync).toHaveBeenCalledWith(`${FOLDER}/notes%20(1).txt`, { idempotent: true });
+});
+
+it('refuses files too large to copy into the folder', async () => {
+  serveDownloads(MAX_SAVE_BYTES + 1);
+
+  const [result] = await download('rename');
+
+  expect(result).toMatchObject({ status: 'failed', error: expect.stringContaining('too large') });
+  expect(saf.createFileAsync).not.toHaveBeenCalled();
+});
@@ -0,0 +1,41 @@
+import { DecryptionError, needsPassphrase, openPaste, parseSecretFragment, sealPaste, stripFragment } from '../encryption';
+
+const content = new TextEncoder().encode('secret notes ✓');
+
+it('round-trips with the key from the link', async () => {
+  const sealed = await sealPaste('notes.md', content);
+  const secret = parseSecretFragment(`https://paste.example.com/abc.bin${sealed.fragment}`);
+
+  expect(secret?.type).toBe('key');
+  expect(needsPassphrase(sealed.data)).toBe(false);
+  const opened = await openPaste(sealed.data, { key: secret?.type === 'key' ? secret.key : undefined });
+  expect(opened.name).toBe('notes.md');
+  expect(opened.content).toEqual(content);
+});
+
+it('round-trips with a passphrase that never appears in the link', async () => {
+  const sealed = await sealPaste('ключ.txt', content, { passphrase: 'correct horse' });
+
+  expect(sealed.fragment).toBe('#passphrase');
+  expect(needsPassphrase(sealed.data)).toBe(true);
+  await expect(openPaste(sealed.data, { passphrase: 'wrong horse' })).rejects.toThrow('Wrong passphrase');
+  const opened = await openPaste(sealed.data, { passphrase: 'correct horse' });
+  expect(opened.name).toBe('ключ.txt');
+  expect(opened.content).toEqual(content);
+});
+
+it('rejects tampered data', async () => {
+  const sealed = await sealPaste('notes.md', content);
+  const secret = parseSecretFragment(sealed.fragment);
+  const tampered = sealed.data.slice();
+  tampered[tampered.length - 1] ^= 1;
+
+  await expect(openPaste(tampered, { key: secret?.type === 'key' ? secret.key : undefined }))
+    .rejects.toBeInstanceOf(DecryptionError);
+});
+
+it('keeps the fragment off the wire', () => {
+  expect(stripFragment('https://paste.example.com/abc.bin#key=abc')).toBe('https://paste.example.com/abc.bin');
+  expect(parseSecretFragment('https://paste.example.com/abc.txt')).toBeNull();
+  expect(parseSecretFragment('https://paste.example.com/abc.txt#key=short')).toBeNull();
+});
@@ -0,0 +1,46 @@
+import { describeExpiryTime, formatExpiry, humanizeDuration, isValidExpiry, parseExpiry } from '../expiry';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+it('parses single and combined durations', () => {
+  expect(parseExpiry('10min')).toEqual({ ok: true, milliseconds: 10 * MINUTE });
+  expect(parseExpiry('1h 30m')).toEqual({ ok: true, milliseconds: 90 * MINUTE });
+  expect(parseExpiry('1h30m')).toEqual({ ok: true, milliseconds: 90 * MINUTE });
+  expect(parseExpiry(' 2 days ')).toEqual({ ok: true, milliseconds: 2 * DAY });
+  expect(parseExpiry('1w')).toEqual({ ok: true, milliseconds: 7 * DAY });
+});
+
+it('keeps months and minutes apart like humantime does', () => {
+  const month = parseExpiry('1M');
+  expect(month.ok && month.milliseconds).toBe(2_630_016 * 1000);
+  expect(parseExpiry('1m')).toEqual({ ok: true, milliseconds: MINUTE });
+});
+
+it('rejects values the server would refuse', () => {
+  expect(parseExpiry('10')).toEqual({ ok: false, error: 'Add a unit after 10, e.g. 10min' });
+  expect(parseExpiry('5 fortnights')).toEqual({ ok: false, error: 'Unknown unit "fortnights"' });
+  expect(parseExpiry('1.5h').ok).toBe(false);
+  expect(parseExpiry('0s').ok).toBe(false);
+  expect(parseExpiry('').ok).toBe(false);
+
+  expect(isValidExpiry('')).toBe(true);
+  expect(isValidExpiry('1h')).toBe(true);
+  expect(isValidExpiry('soon')).toBe(false);
+});
+
+it('formats durations for the server and for people', () => {
+  expect(formatExpiry(DAY + 2 * HOUR + 30 * MINUTE)).toBe('1d 2h 30min');
+  expect(humanizeDuration(DAY + 2 * HOUR + 30 * MINUTE)).toBe('1 day 2 hours');
+  expect(humanizeDuration(MINUTE)).toBe('1 minute');
+});
+
+it('describes when the paste will expire', () => {
+  const now = new Date(2024, 2, 5, 22, 0);
+
+  expect(describeExpiryTime(HOUR, now)).toMatch(/ today$/);
+  expect(describeExpiryTime(3 * HOUR, now)).toMatch(/ tomorrow$/);
+  expect(describeExpiryTime(3 * DAY, now)).toMatch(/ on Friday$/);
+  expect(describeExpiryTime(30 * DAY, now)).toMatch(/^Expires on /);
+});
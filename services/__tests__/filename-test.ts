@@ -0,0 +1,26 @@
+import { applyNameTemplate, resolveUploadFilename, sanitizeFilename } from '../filename';
+
+const date = new Date(2024, 2, 5, 9, 4, 7);
+
+it('expands placeholders and keeps the original extension', () => {
+  expect(applyNameTemplate('{date}-{original}', { originalName: 'holiday.JPG', profileName: 'Home', date, random: 'abc123' }))
+    .toBe('2024-03-05-holiday.jpg');
+  expect(applyNameTemplate('{profile}-{random}', { originalName: 'notes.txt', profileName: 'Home LAN', date, random: 'abc123' }))
+    .toBe('Home-LAN-abc123.txt');
+  expect(applyNameTemplate('{original}_{time}.md', { originalName: 'notes.txt', profileName: 'Home', date, random: 'abc123' }))
+    .toBe('notes_090407.md');
+});
+
+it('strips characters that are unsafe in paths and URLs', () => {
+  expect(sanitizeFilename('../../etc/passwd')).toBe('etc-passwd');
+  expect(sanitizeFilename('  my report (final).pdf ')).toBe('my-report-final.pdf');
+  expect(sanitizeFilename('...')).toBe('file');
+});
+
+it('prefers a custom name over the profile template', () => {
+  const profile = { name: 'Home', nameTemplate: '{random}' };
+
+  expect(resolveUploadFilename(profile, 'IMG_0001.jpg', 'beach', 'abc123')).toBe('beach.jpg');
+  expect(resolveUploadFilename(profile, 'IMG_0001.jpg', '', 'abc123')).toBe('abc123.jpg');
+  expect(resolveUploadFilename({ ...profile, nameTemplate: '' }, 'IMG_0001.jpg')).toBeUndefined();
+});
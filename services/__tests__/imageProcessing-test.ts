@@ -0,0 +1,39 @@
+import {
+  DEFAULT_IMAGE_PROCESSING,
+  estimateProcessedSize,
+  fitDimensions,
+  isValidImageProcessing,
+  processedFileName,
+} from '../imageProcessing';
+
+const settings = { ...DEFAULT_IMAGE_PROCESSING, enabled: true };
+
+it('fits the longest side and keeps the aspect ratio', () => {
+  expect(fitDimensions(4000, 3000, 2048)).toEqual({ width: 2048, height: 1536 });
+  expect(fitDimensions(3000, 4000, 2048)).toEqual({ width: 1536, height: 2048 });
+  expect(fitDimensions(800, 600, 2048)).toEqual({ width: 800, height: 600 });
+  expect(fitDimensions(4000, 3000, 0)).toEqual({ width: 4000, height: 3000 });
+});
+
+it('renames converted images only', () => {
+  expect(processedFileName('IMG_0001.HEIC', settings)).toBe('IMG_0001.jpg');
+  expect(processedFileName('screenshot.png', { ...settings, format: 'webp' })).toBe('screenshot.webp');
+  expect(processedFileName('animation.gif', settings)).toBe('animation.gif');
+  expect(processedFileName('IMG_0001.HEIC', DEFAULT_IMAGE_PROCESSING)).toBe('IMG_0001.HEIC');
+});
+
+it('estimates smaller output for smaller images and lower quality', () => {
+  const full = estimateProcessedSize(4000, 3000, { ...settings, maxDimension: 0 });
+  const resized = estimateProcessedSize(4000, 3000, settings);
+  const lowQuality = estimateProcessedSize(4000, 3000, { ...settings, quality: 50 });
+
+  expect(resized).toBeLessThan(full);
+  expect(lowQuality).toBeLessThan(resized);
+  expect(estimateProcessedSize(4000, 3000, { ...settings, format: 'webp' })).toBeLessThan(resized);
+});
+
+it('validates quality and size', () => {
+  expect(isValidImageProcessing(settings)).toBe(true);
+  expect(isValidImageProcessing({ ...settings, quality: 0 })).toBe(false);
+  expect(isValidImageProcessing({ ...settings, maxDimension: -1 })).toBe(false);
+});
@@ -0,0 +1,109 @@
+import * as FileSystem from 'expo-file-system';
+
+import { bytesToBase64 } from '../binary';
+import { describeRemovedMetadata, MAX_STRIP_BYTES, MetadataTooLargeError, stripFileMetadata, stripImageMetadata } from '../metadata';
+
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: jest.fn(),
+  getInfoAsync: jest.fn(),
+  EncodingType: { Base64: 'base64' },
+}));
+
+const bytes = (...parts: (number[] | string)[]) =>
+  Uint8Array.from(parts.flatMap(part => (typeof part === 'string' ? Array.from(part, c => c.charCodeAt(0)) : part)));
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+
+// Little-endian TIFF with Make, Orientation = 6 and a GPS IFD pointer
+const tiff = bytes(
+  'II', [0x2a, 0x00], u32le(8),
+  [0x03, 0x00],
+  [0x0f, 0x01, 0x02, 0x00], u32le(4), 'Can\0',
+  [0x12, 0x01, 0x03, 0x00], u32le(1), [0x06, 0x00, 0x00, 0x00],
+  [0x25, 0x88, 0x04, 0x00], u32le(1), u32le(0),
+  u32le(0),
+);
+
+const segment = (marker: number, payload: Uint8Array) => bytes([0xff, marker], u16(payload.length + 2), Array.from(payload));
+
+const JFIF = segment(0xe0, bytes('JFIF\0', [1, 1, 0, 0, 1, 0, 1, 0, 0]));
+const SCAN = bytes([0xff, 0xda], u16(4), [1, 2], [9, 9, 9], [0xff, 0xd9]);
+
+it('strips EXIF, XMP and comments from a JPEG but keeps the orientation', () => {
+  const jpeg = bytes(
+    [0xff, 0xd8],
+    Array.from(JFIF),
+    Array.from(segment(0xe1, bytes('Exif\0\0', Array.from(tiff)))),
+    Array.from(segment(0xe1, bytes('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>'))),
+    Array.from(segment(0xfe, bytes('shot on holiday'))),
+    Array.from(SCAN),
+  );
+
+  const result = stripImageMetadata(jpeg);
+  expect(result?.removed).toEqual(['camera make and model', 'GPS location', 'XMP metadata', 'comments']);
+
+  const stripped = result!.data;
+  const text = String.fromCharCode(...stripped);
+  expect(text).not.toContain('Can');
+  expect(text).not.toContain('xmpmeta');
+  expect(text).not.toContain('holiday');
+  // SOI, JFIF, then a fresh APP1 holding only the orientation
+  expect(Array.from(stripped.subarray(2, 2 + JFIF.length))).toEqual(Array.from(JFIF));
+  const app1 = stripped.subarray(2 + JFIF.length);
+  expect(Array.from(app1.subarray(0, 2))).toEqual([0xff, 0xe1]);
+  expect(Array.from(app1.subarray(10, 14))).toEqual([0x4d, 0x4d, 0x00, 0x2a]);
+  expect(Array.from(app1.subarray(28, 30))).toEqual([0x00, 0x06]);
+  expect(Array.from(stripped.subarray(stripped.length - SCAN.length))).toEqual(Array.from(SCAN));
+});
+
+it('strips text chunks from a PNG and leaves clean images alone', () => {
+  const chunk = (type: string, data: Uint8Array) => bytes([0, 0, 0, data.length], type, Array.from(data), [0, 0, 0, 0]);
+  const header = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const ihdr = chunk('IHDR', new Uint8Array(13));
+  const iend = chunk('IEND', new Uint8Array());
+  const png = bytes(
+    Array.from(header),
+    Array.from(ihdr),
+    Array.from(chunk('tEXt', bytes('Author\0Someone'))),
+    Array.from(chunk('iTXt', bytes('XML:com.adobe.xmp\0\0\0\0\0<x/>'))),
+    Array.from(iend),
+  );
+
+  const result = stripImageMetadata(png);
+  expect(result?.removed).toEqual(['text comments', 'XMP metadata']);
+  expect(Array.from(result!.data)).toEqual([...header, ...ihdr, ...iend]);
+
+  expect(stripImageMetadata(result!.data)).toBeNull();
+  expect(stripImageMetadata(bytes('%PDF-1.7'))).toBeNull();
+});
+
+it('strips EXIF from a WebP and fixes its header', () => {
+  const chunk = (type: string, data: number[]) => [...Array.from(bytes(type)), ...u32le(data.length), ...data, ...(data.length % 2 ? [0] : [])];
+  const vp8x = chunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  const vp8l = chunk('VP8L', [1, 2, 3]);
+  const body = [...Array.from(bytes('WEBP')), ...vp8x, ...vp8l, ...chunk('EXIF', Array.from(tiff))];
+  const webp = bytes('RIFF', u32le(body.length), body);
+
+  const result = stripImageMetadata(webp);
+  expect(result?.removed).toEqual(['camera make and model', 'GPS location']);
+
+  const stripped = result!.data;
+  expect(new DataView(stripped.buffer).getUint32(4, true)).toBe(stripped.length - 8);
+  expect(stripped[20]).toBe(0);
+  expect(Array.from(stripped.subarray(stripped.length - vp8l.length))).toEqual(vp8l);
+});
+
+it('summarizes long lists', () => {
+  expect(describeRemovedMetadata(['GPS location'])).toBe('GPS location');
+  expect(describeRemovedMetadata(['GPS location', 'date taken', 'maker notes', 'comments']))
+    .toBe('GPS location, date taken and 2 more');
+});
+
+it('refuses to upload an image too large to strip rather than keep its metadata', async () => {
+  jest.mocked(FileSystem.readAsStringAsync).mockResolvedValue(bytesToBase64(bytes([0xff, 0xd8], Array.from(JFIF))));
+  jest.mocked(FileSystem.getInfoAsync).mockResolvedValue({ exists: true, size: MAX_STRIP_BYTES + 1 } as FileSystem.FileInfo);
+
+  await expect(stripFileMetadata('file:///tmp/huge.jpg')).rejects.toBeInstanceOf(MetadataTooLargeError);
+  expect(FileSystem.readAsStringAsync).toHaveBeenCalledTimes(1);
+});
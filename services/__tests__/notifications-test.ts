@@ -0,0 +1,77 @@
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+
+import type { UploadEvent } from '../api';
+import { notificationObserver, registerRetryHandler, setupNotificationResponseHandler } from '../notifications';
+import type { UploadProgress } from '../progress';
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  scheduleNotificationAsync: jest.fn(async () => 'id'),
+  dismissNotificationAsync: jest.fn(async () => {}),
+  addNotificationResponseReceivedListener: jest.fn(),
+  AndroidNotificationPriority: { LOW: 'low' },
+}));
+jest.mock('expo-router', () => ({ router: { push: jest.fn() } }));
+
+const event = { id: 'upload-1', kind: 'file', name: 'video.mp4', size: 4000 } as UploadEvent;
+const progress: UploadProgress = { bytesSent: 1000, totalBytes: 4000, percent: 25, bytesPerSecond: 0, etaSeconds: null };
+const report = () => notificationObserver.onUploadProgress!({ ...event, progress, cancel: jest.fn() });
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+beforeEach(() => jest.clearAllMocks());
+
+it('shows progress at most once a second', async () => {
+  jest.useFakeTimers({ now: 0, doNotFake: ['setImmediate'] });
+  report();
+  jest.setSystemTime(500);
+  report();
+  jest.setSystemTime(1000);
+  report();
+  jest.useRealTimers();
+  notificationObserver.onUploadSettled!(event);
+  await flush();
+
+  expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(2);
+});
+
+it('dismisses progress only after the last update has been shown', async () => {
+  let finishShowing = () => {};
+  jest.mocked(Notifications.scheduleNotificationAsync).mockImplementationOnce(
+    () => new Promise(resolve => { finishShowing = () => resolve('id'); })
+  );
+
+  report();
+  notificationObserver.onUploadSettled!(event);
+  await flush();
+  expect(Notifications.dismissNotificationAsync).not.toHaveBeenCalled();
+
+  finishShowing();
+  await flush();
+  expect(Notifications.dismissNotificationAsync).toHaveBeenCalledWith('upload-1');
+});
+
+it('retries the queued copy from the Retry action and falls back to the Upload screen', async () => {
+  setupNotificationResponseHandler();
+  const [[respond]] = jest.mocked(Notifications.addNotificationResponseReceivedListener).mock.calls;
+  const tapRetry = (retryId: string) => respond({
+    actionIdentifier: 'retry_upload',
+    notification: { request: { identifier: 'error-1', content: { data: { type: 'error', retryId } } } },
+  } as unknown as Notifications.NotificationResponse);
+
+  const onRetry = jest.fn(async (id: string) => id === 'queued-1');
+  const unregister = registerRetryHandler(onRetry);
+  await tapRetry('queued-1');
+  expect(onRetry).toHaveBeenCalledWith('queued-1');
+  expect(Notifications.dismissNotificationAsync).toHaveBeenCalledWith('error-1');
+  expect(router.push).not.toHaveBeenCalled();
+
+  await tapRetry('gone');
+  expect(router.push).toHaveBeenCalledWith('/upload');
+
+  unregister();
+  await tapRetry('queued-1');
+  expect(onRetry).toHaveBeenCalledTimes(2);
+  expect(router.push).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,36 @@
+import { createProgressTracker, describeProgress, formatBytes, formatEta, type UploadProgress } from '../progress';
+
+it('formats sizes and remaining time', () => {
+  expect(formatBytes(512)).toBe('512 B');
+  expect(formatBytes(1536)).toBe('1.5 KB');
+  expect(formatBytes(12 * 1024 * 1024)).toBe('12.0 MB');
+  expect(formatEta(14.2)).toBe('15s');
+  expect(formatEta(125)).toBe('2m 5s');
+  expect(formatEta(3 * 3600 + 120)).toBe('3h 2m');
+});
+
+it('summarizes progress in one line', () => {
+  expect(describeProgress({
+    bytesSent: 12 * 1024 * 1024,
+    totalBytes: 28 * 1024 * 1024,
+    percent: 42.9,
+    bytesPerSecond: 1.2 * 1024 * 1024,
+    etaSeconds: 14,
+  })).toBe('42% · 12.0 MB of 28.0 MB · 1.2 MB/s · 14s left');
+  expect(describeProgress({ bytesSent: 2048, totalBytes: 0, percent: null, bytesPerSecond: 0, etaSeconds: null }))
+    .toBe('2.0 KB');
+});
+
+it('derives throughput and ETA from progress events', () => {
+  jest.useFakeTimers({ now: 0 });
+  const reports: UploadProgress[] = [];
+  const track = createProgressTracker(progress => reports.push(progress));
+
+  track(0, 4000);
+  jest.setSystemTime(1000);
+  track(1000, 4000);
+  jest.useRealTimers();
+
+  expect(reports[0]).toEqual({ bytesSent: 0, totalBytes: 4000, percent: 0, bytesPerSecond: 0, etaSeconds: null });
+  expect(reports[1]).toEqual({ bytesSent: 1000, totalBytes: 4000, percent: 25, bytesPerSecond: 1000, etaSeconds: 3 });
+});
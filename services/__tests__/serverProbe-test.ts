@@ -0,0 +1,35 @@
+import type { ServerCapabilities } from '@/contexts/SettingsContext';
+import { canDeleteUploads, canListUploads, describeCapabilities } from '../serverProbe';
+
+const tested = (changes: Partial<ServerCapabilities>): ServerCapabilities => ({
+  checkedAt: 0,
+  version: null,
+  auth: 'ok',
+  list: 'enabled',
+  delete: 'enabled',
+  ...changes,
+});
+
+it('hides the upload list only when the server turned it off', () => {
+  expect(canListUploads({})).toBe(true);
+  expect(canListUploads({ capabilities: tested({ list: 'unknown' }) })).toBe(true);
+  expect(canListUploads({ capabilities: tested({ list: 'disabled' }) })).toBe(false);
+});
+
+it('offers deleting with a delete token the server did not refuse', () => {
+  expect(canDeleteUploads({ deleteToken: '' })).toBe(false);
+  expect(canDeleteUploads({ deleteToken: 'token' })).toBe(true);
+  expect(canDeleteUploads({ deleteToken: 'token', capabilities: tested({ delete: 'rejected' }) })).toBe(false);
+  expect(canDeleteUploads({ deleteToken: 'token', capabilities: tested({ delete: 'disabled' }) })).toBe(false);
+});
+
+it('reports checks it could not make as neither passed nor failed', () => {
+  const report = describeCapabilities(tested({ version: '0.16.0', auth: 'unknown', list: 'disabled' }));
+  expect(report.map(({ label, ok }) => [label, ok])).toEqual([
+    ['Server', true],
+    ['Authentication', null],
+    ['Upload list', false],
+    ['Delete token', true],
+  ]);
+  expect(report[0].detail).toBe('0.16.0');
+});
@@ -0,0 +1,25 @@
+import { buildFileUrl, buildServerUrl, isValidServerUrl, sendsTokensInCleartext, splitServerUrl } from '../serverUrl';
+
+it('splits a typed scheme off the address', () => {
+  expect(splitServerUrl(' HTTP://paste.example.com/ ')).toEqual({ scheme: 'http', address: 'paste.example.com/' });
+  expect(splitServerUrl('paste.example.com')).toEqual({ scheme: null, address: 'paste.example.com' });
+});
+
+it('builds URLs with the profile scheme rather than a typed one', () => {
+  expect(buildServerUrl({ serverUrl: 'https://paste.example.com//', scheme: 'http' }, '/list'))
+    .toBe('http://paste.example.com/list');
+  expect(buildFileUrl({ serverUrl: 'example.com/paste', scheme: 'https' }, 'my file.txt'))
+    .toBe('https://example.com/paste/my%20file.txt');
+});
+
+it('rejects addresses without a host', () => {
+  expect(isValidServerUrl({ serverUrl: 'paste.example.com:8000', scheme: 'https' })).toBe(true);
+  expect(isValidServerUrl({ serverUrl: '', scheme: 'https' })).toBe(false);
+  expect(isValidServerUrl({ serverUrl: 'https://', scheme: 'https' })).toBe(false);
+});
+
+it('warns only when tokens would travel over plain HTTP', () => {
+  expect(sendsTokensInCleartext({ scheme: 'http', authToken: 'secret', deleteToken: '' })).toBe(true);
+  expect(sendsTokensInCleartext({ scheme: 'http', authToken: '', deleteToken: '' })).toBe(false);
+  expect(sendsTokensInCleartext({ scheme: 'https', authToken: 'secret', deleteToken: 'secret' })).toBe(false);
+});
@@ -0,0 +1,32 @@
+import { createShareRule, describeShareRule, findShareRule, matchesShareRule } from '../shareRules';
+
+const screenshot = { uri: 'file:///shot.png', name: 'Screenshot_1.png', size: 400 * 1024, mimeType: 'image/png' };
+const document = { uri: 'file:///notes.pdf', name: 'notes.pdf', size: 2 * 1024 * 1024, mimeType: 'application/pdf' };
+
+it('matches on MIME type, extension and size', () => {
+  const rule = createShareRule({ match: { mimeTypes: 'image/*', extensions: '.PNG, jpg', minSize: 0, maxSize: 1024 * 1024, sources: '' } });
+
+  expect(matchesShareRule(rule, { kind: 'files', files: [screenshot] })).toBe(true);
+  expect(matchesShareRule(rule, { kind: 'files', files: [{ ...screenshot, size: 5 * 1024 * 1024 }] })).toBe(false);
+  expect(matchesShareRule(rule, { kind: 'files', files: [{ ...screenshot, size: undefined }] })).toBe(false);
+  // Every file has to match
+  expect(matchesShareRule(rule, { kind: 'files', files: [screenshot, document] })).toBe(false);
+  expect(matchesShareRule({ ...rule, enabled: false }, { kind: 'files', files: [screenshot] })).toBe(false);
+});
+
+it('matches text and links by their pseudo MIME type and host', () => {
+  const text = createShareRule({ action: 'review', match: { mimeTypes: 'text/plain', extensions: '', minSize: 0, maxSize: 0, sources: '' } });
+  const youtube = createShareRule({ action: 'reject', match: { mimeTypes: '', extensions: '', minSize: 0, maxSize: 0, sources: 'youtube.com' } });
+
+  expect(findShareRule([youtube, text], { kind: 'text', text: 'hello' })).toBe(text);
+  expect(findShareRule([youtube, text], { kind: 'url', url: 'https://m.youtube.com/watch?v=1' })).toBe(youtube);
+  // A lone link shared as text still has a host
+  expect(findShareRule([youtube, text], { kind: 'text', text: 'https://youtube.com/x' })).toBe(youtube);
+  expect(findShareRule([youtube], { kind: 'url', url: 'https://notyoutube.com' })).toBeNull();
+});
+
+it('describes a rule', () => {
+  const rule = createShareRule({ action: 'upload', match: { mimeTypes: 'image/*', extensions: 'png', minSize: 1024, maxSize: 0, sources: '' } });
+  expect(describeShareRule(rule, bytes => `${bytes} B`)).toBe('image/* · .png · over 1024 B → Upload');
+  expect(describeShareRule(createShareRule({ action: 'reject' }), String)).toBe('Anything → Reject');
+});
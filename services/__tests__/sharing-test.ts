@@ -0,0 +1,42 @@
+import type { ImagePickerAsset } from 'expo-image-picker';
+
+import { processedFileName } from '../imageProcessing';
+import { capturedFile, handleShareIntentOnce } from '../sharing';
+
+jest.mock('expo-image-picker', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+
+it('handles each share intent once and always resets it', async () => {
+  const handled = { current: null as object | null };
+  const reset = jest.fn();
+  const intent = { text: 'hello' };
+  const handle = jest.fn(async () => {});
+
+  expect(await handleShareIntentOnce(intent, handled, handle, reset)).toBe(true);
+  // A settings change re-runs the effect with the same intent before it is reset
+  expect(await handleShareIntentOnce(intent, handled, handle, reset)).toBe(false);
+  expect(handle).toHaveBeenCalledTimes(1);
+  expect(reset).toHaveBeenCalledTimes(1);
+
+  const failing = jest.fn(async () => { throw new Error('Upload failed'); });
+  await expect(handleShareIntentOnce({ text: 'again' }, handled, failing, reset)).rejects.toThrow('Upload failed');
+  expect(reset).toHaveBeenCalledTimes(2);
+});
+
+it('names captures after the camera file and keeps their details', () => {
+  const photo = { uri: 'file:///cache/Camera/IMG_0001.HEIC', width: 4032, height: 3024, fileSize: 2048, mimeType: 'image/heic' } as ImagePickerAsset;
+  expect(capturedFile({ ...photo, fileName: 'holiday.heic' }, 'photo')).toEqual({
+    uri: photo.uri,
+    name: 'holiday.heic',
+    size: 2048,
+    mimeType: 'image/heic',
+    width: 4032,
+    height: 3024,
+  });
+  expect(capturedFile(photo, 'photo').name).toBe('IMG_0001.HEIC');
+  expect(capturedFile({ ...photo, uri: 'content://media/' }, 'video').name).toBe('video.mp4');
+
+  // A converted capture is uploaded under its new extension, like a picked image
+  const processing = { enabled: true, maxDimension: 2048, format: 'jpeg' as const, quality: 80 };
+  expect(processedFileName(capturedFile(photo, 'photo').name, processing)).toBe('IMG_0001.jpg');
+});
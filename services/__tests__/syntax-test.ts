@@ -0,0 +1,35 @@
+import { detectLanguage, highlightLines } from '../syntax';
+
+it('picks the language from the file extension', () => {
+  expect(detectLanguage('main.RS')).toBe('rust');
+  expect(detectLanguage('config.yml')).toBe('config');
+  expect(detectLanguage('notes.txt')).toBeNull();
+  expect(detectLanguage('Makefile')).toBeNull();
+});
+
+it('tokenizes keywords, strings, numbers and comments', () => {
+  const [line] = highlightLines('const x = "a // b"; // note', 'javascript');
+
+  expect(line).toEqual([
+    { text: 'const', type: 'keyword' },
+    { text: ' x = ', type: 'plain' },
+    { text: '"a // b"', type: 'string' },
+    { text: '; ', type: 'plain' },
+    { text: '// note', type: 'comment' },
+  ]);
+  expect(highlightLines('x2 = 42', 'python')[0]).toEqual([
+    { text: 'x2 = ', type: 'plain' },
+    { text: '42', type: 'number' },
+  ]);
+});
+
+it('carries block comments across lines', () => {
+  const lines = highlightLines('/* start\nstill comment */ fn', 'rust');
+
+  expect(lines[0]).toEqual([{ text: '/* start', type: 'comment' }]);
+  expect(lines[1]).toEqual([
+    { text: 'still comment */', type: 'comment' },
+    { text: ' ', type: 'plain' },
+    { text: 'fn', type: 'keyword' },
+  ]);
+});
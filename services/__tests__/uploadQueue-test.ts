@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+import { ApiError, CancelledError, FileTooLargeError } from '../api';
+import {
+  createQueuedUpload,
+  discardQueuedUpload,
+  FAILED_UPLOAD_LIFETIME_MS,
+  getRetryDelay,
+  isRetryableError,
+  loadQueue,
+  MAX_UPLOAD_ATTEMPTS,
+  saveQueue,
+  shouldRetry,
+} from '../uploadQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    setItemAsync: jest.fn(async (key: string, value: string) => { items.set(key, value); }),
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    deleteItemAsync: jest.fn(async (key: string) => { items.delete(key); }),
+  };
+});
+jest.mock('../client', () => ({ createClient: jest.fn() }));
+
+it('retries only failures that may go away', () => {
+  expect(isRetryableError(new TypeError('Network request failed'))).toBe(true);
+  expect(isRetryableError(new ApiError('Request timed out'))).toBe(true);
+  expect(isRetryableError(new ApiError('Too many requests', 429))).toBe(true);
+  expect(isRetryableError(new ApiError('Bad gateway', 502))).toBe(true);
+  expect(isRetryableError(new ApiError('Unauthorized', 401))).toBe(false);
+  expect(isRetryableError(new ApiError('Payload too large', 413))).toBe(false);
+  expect(isRetryableError(new CancelledError())).toBe(false);
+  expect(isRetryableError(new FileTooLargeError('Too large to strip'))).toBe(false);
+});
+
+it('backs off exponentially up to an hour', () => {
+  expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([15_000, 30_000, 60_000, 120_000]);
+  expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+});
+
+it('gives up after the last attempt', () => {
+  const offline = new TypeError('Network request failed');
+  expect(shouldRetry(offline, 1)).toBe(true);
+  expect(shouldRetry(offline, MAX_UPLOAD_ATTEMPTS - 1)).toBe(true);
+  expect(shouldRetry(offline, MAX_UPLOAD_ATTEMPTS)).toBe(false);
+  expect(shouldRetry(new ApiError('Unauthorized', 401), 1)).toBe(false);
+});
+
+it('drops failed items nobody retried in time', async () => {
+  const item = await createQueuedUpload('text', 'note', 'profile', {});
+  const old = { ...item, id: 'old', status: 'failed' as const, createdAt: Date.now() - FAILED_UPLOAD_LIFETIME_MS - 1 };
+  const stale = { ...item, id: 'stale', status: 'pending' as const, createdAt: old.createdAt };
+  await saveQueue([old, stale, { ...item, status: 'failed' }]);
+
+  expect((await loadQueue()).map(loaded => loaded.id)).toEqual(['stale', item.id]);
+  expect(JSON.parse((await AsyncStorage.getItem('uploadQueue'))!)).toHaveLength(2);
+});
+
+describe('encrypted items', () => {
+  const passphrase = 'correct horse battery staple';
+
+  it('keep the passphrase out of the stored queue', async () => {
+    const item = await createQueuedUpload('text', 'secret note', 'profile', { encryption: { passphrase } });
+    await saveQueue([item]);
+
+    const stored = (await AsyncStorage.getItem('uploadQueue'))!;
+    expect(stored).not.toContain(passphrase);
+    expect(JSON.parse(stored)[0].options.encryption).toEqual({ hasPassphrase: true });
+
+    const [loaded] = await loadQueue();
+    expect(loaded.options.encryption).toEqual({ passphrase });
+
+    await discardQueuedUpload(loaded);
+    expect(await SecureStore.getItemAsync(`queuedPassphrase_${item.id}`)).toBeNull();
+  });
+
+  it('never lose their encryption along with a missing passphrase', async () => {
+    const item = await createQueuedUpload('text', 'secret note', 'profile', { encryption: { passphrase } });
+    await saveQueue([item]);
+    await SecureStore.deleteItemAsync(`queuedPassphrase_${item.id}`);
+
+    const [loaded] = await loadQueue();
+    expect(loaded.status).toBe('failed');
+    expect(loaded.options.encryption).toEqual({});
+  });
+});
@@ -1,41 +1,399 @@
 /**
  * API client for interacting with the paste server.
- * Note: Server URLs must include protocol (http:// or https://).
- * If protocol is not provided, https:// will be used by default.
+ * Note: Request URLs use the profile's scheme setting, see serverUrl.ts.
  */
 
-import { notifyUploadSuccess, notifyUploadError } from './notifications';
-
-
-interface UploadOptions {
+import * as FileSystem from 'expo-file-system';
+
+import type { ServerProfile } from '@/contexts/SettingsContext';
+import { base64ToBytes, bytesToBase64 } from './binary';
+import { sealPaste, type EncryptionOptions } from './encryption';
+import { discardStrippedFile, MetadataTooLargeError, stripFileMetadata } from './metadata';
+import { generateRandomToken, splitExtension } from './filename';
+import {
+  discardProcessedImage,
+  isProcessableImage,
+  processImage,
+  type ImageProcessingReport,
+  type ImageProcessingSettings,
+} from './imageProcessing';
+import { createProgressTracker, type ProgressCallback, type UploadProgress } from './progress';
+import { buildServerUrl } from './serverUrl';
+
+
+export interface UploadOptions {
   expiry?: string;
   oneshot?: boolean;
+  /** Name to store the upload under instead of the one the server picks. */
+  filename?: string;
+  /**
+   * Encrypt text and file uploads on the device; the returned URL carries
+   * the key in its fragment. A queued upload keeps the passphrase in
+   * SecureStore rather than with its other options.
+   */
+  encryption?: EncryptionOptions;
+  /** Overrides the profile's image processing for this upload. */
+  imageProcessing?: ImageProcessingSettings;
+  /** Names of the files packed into an uploaded archive, for history. */
+  archiveContents?: string[];
+}
+
+/** Per-call hooks that, unlike UploadOptions, are never persisted. */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface TransferOptions extends RequestOptions {
+  onProgress?: ProgressCallback;
+  /**
+   * Leaves announcing the outcome to the caller, as a batch does for its
+   * files. Never persisted, so a queued retry announces itself.
+   */
+  silent?: boolean;
+  /**
+   * Queue item that holds a copy of this upload, so that a failure can be
+   * retried from its notification.
+   */
+  retryId?: string;
+  /**
+   * Tells whether the queue will try a failed upload again, in which case
+   * observers hold back until the final outcome.
+   */
+  willRetry?: (error: ApiError) => boolean;
+  /**
+   * Keeps a copy under `retryId` of an upload that failed for good, before
+   * observers hear of it. Resolves to false when that failed, in which case
+   * observers get no `retryId` to offer a retry with.
+   */
+  keepFailed?: (error: ApiError) => Promise<boolean>;
+}
+
+export type UploadKind = "text" | "file" | "url" | "remote";
+
+export interface UploadedFile {
+  file_name: string;
+  file_size: number;
+  expires_at_utc: string | null;
 }
 
 export class ApiError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
+    /** Body of the failed response, when the server sent one. */
+    public responseText?: string,
   ) {
     super(message);
     this.name = "ApiError";
   }
 }
 
-const formatUrl = (serverUrl: string) => {
-  const url = serverUrl.replace(/^http:\/\//, "https://");
-  return url.startsWith("https://") ? url : `https://${url}`;
+/** Thrown when the caller aborted the request, as opposed to it failing. */
+export class CancelledError extends ApiError {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+/** Thrown for a file the app can't prepare for upload; no retry will change that. */
+export class FileTooLargeError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileTooLargeError";
+  }
+}
+
+export interface TransportRequest {
+  url: string;
+  method: "GET" | "POST" | "DELETE";
+  headers: Record<string, string>;
+  body?: FormData;
+  signal: AbortSignal;
+  onUploadProgress?: (bytesSent: number, totalBytes: number) => void;
+  /** Called once the whole body is sent and only the response is left. */
+  onUploadComplete?: () => void;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  text: () => Promise<string>;
+}
+
+/**
+ * Performs a single HTTP exchange. Implementations reject with an error named
+ * "AbortError" when the signal fires and with a TypeError when the server
+ * cannot be reached, the same way fetch does.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+// fetch has no upload progress events in React Native, so requests go
+// through XMLHttpRequest, which fetch is built on there anyway.
+export const xhrTransport: Transport = (request) =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const { onUploadProgress, onUploadComplete } = request;
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) =>
+        onUploadProgress(event.loaded, event.lengthComputable ? event.total : 0);
+    }
+    if (onUploadComplete) {
+      xhr.upload.onload = () => onUploadComplete();
+    }
+
+    const onAbort = () => {
+      xhr.abort();
+      const error = new Error("Aborted");
+      error.name = "AbortError";
+      reject(error);
+    };
+
+    xhr.onload = () => {
+      request.signal.removeEventListener("abort", onAbort);
+      resolve({
+        status: xhr.status,
+        statusText: xhr.statusText,
+        text: async () => xhr.responseText,
+      });
+    };
+    xhr.onerror = () => {
+      request.signal.removeEventListener("abort", onAbort);
+      reject(new TypeError("Network request failed"));
+    };
+
+    if (request.signal.aborted) {
+      onAbort();
+      return;
+    }
+    request.signal.addEventListener("abort", onAbort);
+    xhr.send(request.body ?? null);
+  });
+
+export interface UploadEvent {
+  /** Stable for the lifetime of one upload. */
+  id: string;
+  kind: UploadKind;
+  /** File name, URL or first line of text, for display. */
+  name: string;
+  size: number | null;
+  profile: ServerProfile;
+  options: UploadOptions;
+  /** Metadata removed from an image before upload, e.g. "GPS location". */
+  strippedMetadata?: string[];
+  /** Set when an image was resized or recompressed before upload. */
+  imageReport?: ImageProcessingReport;
+  /** The caller reports the outcome itself; see TransferOptions.silent. */
+  silent?: boolean;
+  /** See TransferOptions.retryId. */
+  retryId?: string;
+}
+
+/**
+ * Side effects around uploads, such as notifications and history, subscribe
+ * here instead of being wired into the requests. A failing observer is
+ * logged and never changes the outcome of the upload.
+ */
+export interface UploadObserver {
+  /** Only file uploads report progress. `cancel` aborts the upload. */
+  onUploadProgress?: (event: UploadEvent & { progress: UploadProgress; cancel: () => void }) => void;
+  onUploadSuccess?: (event: UploadEvent & { url: string }) => void | Promise<void>;
+  /** Not called for cancelled uploads. */
+  onUploadError?: (event: UploadEvent & { error: ApiError; willRetry: boolean }) => void | Promise<void>;
+  /** Called last, whatever the outcome. */
+  onUploadSettled?: (event: UploadEvent) => void;
+}
+
+export interface ClientConfig {
+  transport?: Transport;
+  observers?: UploadObserver[];
+}
+
+interface RequestTimer {
+  /** Restarts the idle countdown; call whenever bytes move. */
+  touch: () => void;
+  /**
+   * Ends the idle countdown once the upload is sent, since the server may
+   * take a while to store a large file. The total timeout still applies.
+   */
+  stopIdle: () => void;
+  clear: () => void;
+  /** Set once a timeout has aborted the request. */
+  readonly timeoutMessage: string | null;
+}
+
+interface PipelineRequest {
+  method: TransportRequest["method"];
+  /** Relative to the server's base URL, including any sub-path. Defaults to "/". */
+  path?: string;
+  headers?: Record<string, string>;
+  body?: FormData;
+  /** Bytes being uploaded, used to extend the total timeout. */
+  uploadBytes?: number;
+  onUploadProgress?: (bytesSent: number, totalBytes: number) => void;
+  /** Prefix for errors built from a failed response, e.g. "Upload failed". */
+  failureMessage: string;
+  /** Replaces the server's response text for specific status codes. */
+  statusMessages?: Record<number, string>;
+}
+
+interface UploadRequest {
+  kind: UploadKind;
+  name: string;
+  failureMessage: string;
+  reportProgress?: boolean;
+  /**
+   * Builds what is sent, e.g. after processing an image. Runs as part of the
+   * upload, so it can be cancelled and its failures reach the observers.
+   */
+  prepare: (context: PrepareContext) => Promise<PreparedUpload>;
+}
+
+interface PrepareContext {
+  signal: AbortSignal;
+  /** Registers the removal of a temporary file for when the upload is over. */
+  onSettled: (cleanup: () => Promise<void>) => void;
+}
+
+interface PreparedUpload {
+  size: number | null;
+  body: FormData;
+  headers?: Record<string, string>;
+  /** The options as sent, when preparing changed them, e.g. the file name. */
+  options?: UploadOptions;
+  /** Appended to the returned URL, e.g. an encryption key. */
+  urlFragment?: string;
+  strippedMetadata?: string[];
+  imageReport?: ImageProcessingReport;
+}
+
+const throwIfCancelled = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new CancelledError();
+  }
+};
+
+/**
+ * Encrypts the content into a temporary file under a random name. The
+ * chosen file name only goes inside the ciphertext, so the server learns
+ * nothing beyond the size.
+ */
+async function sealUpload(
+  innerName: string,
+  content: Uint8Array,
+  options: UploadOptions,
+  { signal, onSettled }: PrepareContext,
+): Promise<PreparedUpload> {
+  const sealed = await sealPaste(innerName, content, options.encryption);
+  throwIfCancelled(signal);
+
+  const uploadName = `${generateRandomToken()}.bin`;
+  const uri = `${FileSystem.cacheDirectory}${uploadName}`;
+  onSettled(() => FileSystem.deleteAsync(uri, { idempotent: true }));
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(sealed.data), { encoding: FileSystem.EncodingType.Base64 });
+
+  const body = new FormData();
+  body.append(options.oneshot ? "oneshot" : "file", { uri, type: "application/octet-stream", name: uploadName } as any);
+  return {
+    size: sealed.data.length,
+    body,
+    options: { ...options, filename: undefined },
+    urlFragment: sealed.fragment,
+  };
+}
+
+// Encryption holds the file in memory several times over: base64, bytes and ciphertext
+export const MAX_ENCRYPTED_FILE_BYTES = 32 * 1024 * 1024;
+
+const getFileSize = async (uri: string): Promise<number | null> => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : null;
+  } catch {
+    return null;
+  }
 };
 
-const handleApiError = (error: any): ApiError => {
+const describeText = (text: string) => {
+  const firstLine = text.trim().split("\n")[0];
+  return firstLine.length > 40 ? `${firstLine.substring(0, 40)}...` : firstLine;
+};
+
+const generateUploadId = () =>
+  `upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Forwards an external abort to the request's own controller, which the
+// timeout also aborts. Returns a function that detaches the listener.
+const linkSignal = (controller: AbortController, signal?: AbortSignal) => {
+  if (!signal) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    controller.abort();
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener("abort", onAbort);
+  return () => signal.removeEventListener("abort", onAbort);
+};
+
+const formatSeconds = (seconds: number) =>
+  seconds < 120 ? `${Math.round(seconds)} seconds` : `${Math.round(seconds / 60)} minutes`;
+
+// Aborts the controller when the request goes quiet for longer than the idle
+// timeout or runs past the total timeout, whichever comes first.
+const startRequestTimer = (
+  controller: AbortController,
+  idleSeconds: number,
+  totalSeconds: number,
+): RequestTimer => {
+  let timeoutMessage: string | null = null;
+  const abortWith = (message: string) => () => {
+    timeoutMessage = message;
+    controller.abort();
+  };
+
+  const onIdle = abortWith(`No response from server for ${formatSeconds(idleSeconds)}`);
+  const totalId = setTimeout(abortWith(`Request timed out after ${formatSeconds(totalSeconds)}`), totalSeconds * 1000);
+  let idleId: ReturnType<typeof setTimeout> | undefined = setTimeout(onIdle, idleSeconds * 1000);
+
+  return {
+    touch: () => {
+      if (idleId === undefined) return;
+      clearTimeout(idleId);
+      idleId = setTimeout(onIdle, idleSeconds * 1000);
+    },
+    stopIdle: () => {
+      clearTimeout(idleId);
+      idleId = undefined;
+    },
+    clear: () => {
+      clearTimeout(totalId);
+      clearTimeout(idleId);
+    },
+    get timeoutMessage() {
+      return timeoutMessage;
+    },
+  };
+};
+
+const handleApiError = (error: any, signal?: AbortSignal, timer?: RequestTimer): ApiError => {
   if (error instanceof ApiError) {
     return error;
   }
 
+  if (error instanceof MetadataTooLargeError) {
+    return new FileTooLargeError(error.message);
+  }
+
   if (error instanceof Error) {
+    if (error.name === "AbortError" && signal?.aborted) {
+      return new CancelledError();
+    }
     if (error.name === "AbortError") {
-      notifyUploadError("Request timed out after 10 seconds", error.message);
-      return new ApiError("Request timed out after 10 seconds");
+      return new ApiError(timer?.timeoutMessage ?? "Request timed out");
     }
     if (
       error instanceof TypeError &&
@@ -52,341 +410,350 @@ const handleApiError = (error: any): ApiError => {
   return new ApiError("Unknown network error");
 };
 
-export async function uploadText(
-  text: string,
-  serverUrl: string,
-  authToken?: string,
-  options: UploadOptions = {},
-): Promise<string> {
-  if (!serverUrl) {
-    const error = new ApiError("Server URL must be configured");
-    notifyUploadError("text", error.message);
-    throw error;
-  }
-
-  const formData = new FormData();
-  const textData = {
-    uri: "text.txt",
-    type: "text/plain",
-    name: "text.txt",
-    string: text,
-  };
-  formData.append(options.oneshot ? "oneshot" : "file", textData as any);
-
-  const headers: Record<string, string> = {
-    Accept: "*/*",
-    "Accept-Encoding": "identity",
-  };
-  if (authToken) headers["Authorization"] = authToken;
-  if (options.expiry) headers["expire"] = options.expiry;
-
-  console.log("Making request to:", serverUrl, formData);
-
-  try {
-    const finalUrl = formatUrl(serverUrl);
-    console.log("Final URL:", finalUrl);
+/**
+ * Talks to the rustypaste server of one profile. Every call goes through the
+ * same pipeline: configuration check, headers, timeouts, cancellation and
+ * error mapping, with uploads additionally reported to the observers.
+ */
+export class RustypasteClient {
+  private readonly transport: Transport;
+  private readonly observers: UploadObserver[];
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(finalUrl, {
-      method: "POST",
-      headers,
-      body: formData,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const responseText = await response.text();
-    if (response.ok) {
-      await notifyUploadSuccess("text", responseText);
-      return responseText;
-    } else {
-      console.error("Server response:", response.status, responseText);
-      const error = new ApiError(
-        `Upload failed: ${responseText || response.statusText}`,
-        response.status,
-      );
-      await notifyUploadError("text", error.message);
-      throw error;
-    }
-  } catch (error) {
-    console.error("Failed to upload text:", error);
-    const apiError = handleApiError(error);
-    await notifyUploadError("text", apiError.message);
-    throw apiError;
+  constructor(
+    private readonly profile: ServerProfile,
+    { transport = xhrTransport, observers = [] }: ClientConfig = {},
+  ) {
+    this.transport = transport;
+    this.observers = observers;
   }
-}
 
-export async function uploadFile(
-  uri: string,
-  serverUrl: string,
-  authToken?: string,
-  options: UploadOptions = {},
-): Promise<string> {
-  if (!serverUrl) {
-    const error = new ApiError("Server URL must be configured");
-    await notifyUploadError("file", error.message);
-    throw error;
+  async uploadText(
+    text: string,
+    options: UploadOptions = {},
+    request: TransferOptions = {},
+  ): Promise<string> {
+    const content = new TextEncoder().encode(text);
+
+    return this.upload(
+      {
+        kind: "text",
+        name: describeText(text),
+        failureMessage: "Upload failed",
+        prepare: async (context) => {
+          if (options.encryption) {
+            return sealUpload(options.filename || "text.txt", content, options, context);
+          }
+
+          const body = new FormData();
+          const textData = {
+            uri: "text.txt",
+            type: "text/plain",
+            name: "text.txt",
+            string: text,
+          };
+          body.append(options.oneshot ? "oneshot" : "file", textData as any);
+          return { size: content.length, body, headers: { "Accept-Encoding": "identity" } };
+        },
+      },
+      options,
+      request,
+    );
   }
 
+  /**
+   * Images are resized and recompressed as the profile or options say, then
+   * lose their EXIF and XMP metadata unless the profile opts out.
+   */
+  async uploadFile(
+    uri: string,
+    options: UploadOptions = {},
+    transfer: TransferOptions = {},
+  ): Promise<string> {
+    const processing = options.imageProcessing ?? this.profile.imageProcessing;
+
+    return this.upload(
+      {
+        kind: "file",
+        name: uri.split("/").pop() || "file",
+        failureMessage: "Upload failed",
+        reportProgress: true,
+        prepare: async (context) => {
+          const { signal, onSettled } = context;
+          const processed = processing.enabled && isProcessableImage(uri) ? await processImage(uri, processing) : null;
+          if (processed) onSettled(() => discardProcessedImage(processed.uri));
+          throwIfCancelled(signal);
+
+          const source = processed?.uri ?? uri;
+          const stripped = this.profile.stripMetadata ? await stripFileMetadata(source) : null;
+          if (stripped) onSettled(() => discardStrippedFile(stripped.uri));
+          throwIfCancelled(signal);
+
+          const fileUri = stripped?.uri ?? source;
+          // A converted image needs its custom name to carry the new extension
+          const filename = processed && options.filename && isProcessableImage(options.filename)
+            ? `${splitExtension(options.filename).base}${splitExtension(processed.uri).extension}`
+            : options.filename;
+          const preprocessing = { strippedMetadata: stripped?.removed, imageReport: processed?.report };
+
+          if (options.encryption) {
+            const size = await getFileSize(fileUri);
+            if (size !== null && size > MAX_ENCRYPTED_FILE_BYTES) {
+              throw new FileTooLargeError(
+                `Files over ${MAX_ENCRYPTED_FILE_BYTES / (1024 * 1024)} MB are too large to encrypt. Upload this one without encryption.`,
+              );
+            }
+            const contents = await FileSystem.readAsStringAsync(fileUri, { encoding: FileSystem.EncodingType.Base64 });
+            throwIfCancelled(signal);
+            const innerName = filename || decodeURIComponent(fileUri.split("/").pop() || "file");
+            return { ...(await sealUpload(innerName, base64ToBytes(contents), options, context)), ...preprocessing };
+          }
+
+          const body = new FormData();
+          const uploadName = fileUri.split("/").pop() || "file";
+          const fileData = { uri: fileUri, type: "application/octet-stream", name: uploadName };
+          body.append(options.oneshot ? "oneshot" : "file", fileData as any);
+          return { size: await getFileSize(fileUri), body, options: { ...options, filename }, ...preprocessing };
+        },
+      },
+      options,
+      transfer,
+    );
+  }
 
-  const formData = new FormData();
-  const filename = uri.split("/").pop() || "file";
-  const fileData = { uri, type: "application/octet-stream", name: filename };
-  formData.append(options.oneshot ? "oneshot" : "file", fileData as any);
-
-  const headers: Record<string, string> = { Accept: "*/*" };
-  if (authToken) headers["Authorization"] = authToken;
-  if (options.expiry) headers["expire"] = options.expiry;
+  async shortenUrl(
+    urlToShorten: string,
+    options: UploadOptions = {},
+    request: TransferOptions = {},
+  ): Promise<string> {
+    const body = new FormData();
+    body.append(options.oneshot ? "oneshot_url" : "url", urlToShorten);
+
+    return this.upload(
+      { kind: "url", name: urlToShorten, failureMessage: "URL shortening failed", prepare: async () => ({ size: null, body }) },
+      options,
+      request,
+    );
+  }
 
-  console.log("Making file upload request to:", serverUrl, formData);
+  async uploadFromRemoteUrl(
+    remoteUrl: string,
+    options: UploadOptions = {},
+    request: TransferOptions = {},
+  ): Promise<string> {
+    const body = new FormData();
+    body.append("remote", remoteUrl); // TODO: upstream feature request to support oneshot remote uploads
+
+    return this.upload(
+      { kind: "remote", name: remoteUrl, failureMessage: "Remote upload failed", prepare: async () => ({ size: null, body }) },
+      options,
+      request,
+    );
+  }
 
-  try {
-    const finalUrl = formatUrl(serverUrl);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(finalUrl, {
-      method: "POST",
-      headers,
-      body: formData,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const responseText = await response.text();
-    if (response.ok) {
-      await notifyUploadSuccess("file", responseText);
-      return responseText;
-    } else {
-      console.error("Server response:", response.status, responseText);
-      const error = new ApiError(
-        `Upload failed: ${responseText || response.statusText}`,
-        response.status,
-      );
-      await notifyUploadError("file", error.message);
-      throw error;
+  async listUploads(request: RequestOptions = {}): Promise<UploadedFile[]> {
+    const responseText = await this.send(
+      {
+        method: "GET",
+        path: "/list",
+        failureMessage: "List request failed",
+        statusMessages: { 404: "Make sure expose_list is set to true in your server config" },
+      },
+      request.signal,
+    );
+
+    try {
+      return JSON.parse(responseText);
+    } catch (e) {
+      throw new ApiError("Invalid JSON response from server");
     }
-  } catch (error) {
-    console.error("Failed to upload file:", error);
-    const apiError = handleApiError(error);
-    await notifyUploadError("file", apiError.message);
-    throw apiError;
   }
-}
 
-export async function shortenUrl(
-  urlToShorten: string,
-  serverUrl: string,
-  authToken?: string,
-  options: UploadOptions = {},
-): Promise<string> {
-  if (!serverUrl) {
-    const error = new ApiError("Server URL must be configured");
-    await notifyUploadError("URL", error.message);
-    throw error;
+  /** The server's version string, e.g. "rustypaste-server 0.16.0". */
+  async getVersion(request: RequestOptions = {}): Promise<string> {
+    const responseText = await this.send(
+      {
+        method: "GET",
+        path: "/version",
+        failureMessage: "Version request failed",
+        statusMessages: { 404: "Make sure expose_version is set to true in your server config" },
+      },
+      request.signal,
+    );
+    return responseText.trim();
   }
 
-  const formData = new FormData();
-  formData.append(options.oneshot ? "oneshot_url" : "url", urlToShorten);
-
-  const headers: Record<string, string> = { Accept: "*/*" };
-  if (authToken) headers["Authorization"] = authToken;
-
-  if (options.expiry) headers["expire"] = options.expiry;
-
-  console.log("URL to shorten:", urlToShorten);
-  console.log("Making URL shortening request to:", serverUrl, formData);
+  async deleteFile(fileName: string, request: RequestOptions = {}): Promise<void> {
+    await this.send(
+      {
+        method: "DELETE",
+        path: `/${encodeURIComponent(fileName)}`,
+        headers: { Authorization: this.profile.deleteToken },
+        failureMessage: "Delete failed",
+        statusMessages: { 404: "Make sure delete_token is set in your server config" },
+      },
+      request.signal,
+    );
+  }
 
-  try {
-    const finalUrl = formatUrl(serverUrl);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(finalUrl, {
-      method: "POST",
-      headers,
-      body: formData,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const responseText = await response.text();
-    if (response.ok) {
-      await notifyUploadSuccess("URL", responseText);
-      return responseText;
-    } else {
-      console.error("Server response:", response.status, responseText);
-      const error = new ApiError(
-        `URL shortening failed: ${responseText || response.statusText}`,
-        response.status,
+  private async upload(
+    upload: UploadRequest,
+    options: UploadOptions,
+    transfer: TransferOptions,
+  ): Promise<string> {
+    const event: UploadEvent = {
+      id: generateUploadId(),
+      kind: upload.kind,
+      name: upload.name,
+      // Filled in once prepared
+      size: null,
+      profile: this.profile,
+      options,
+      silent: transfer.silent,
+      retryId: transfer.retryId,
+    };
+
+    // Aborted by the caller's signal or by an observer, e.g. a notification's Cancel action
+    const cancellation = new AbortController();
+    const unlinkCancellation = linkSignal(cancellation, transfer.signal);
+    const cancel = () => cancellation.abort();
+
+    // XHR can still report progress after the request has settled
+    let settled = false;
+    const onUploadProgress = upload.reportProgress
+      ? createProgressTracker((progress) => {
+          if (settled) return;
+          transfer.onProgress?.(progress);
+          this.notify("onUploadProgress", { ...event, progress, cancel });
+        })
+      : undefined;
+
+    const cleanups: (() => Promise<void>)[] = [];
+
+    try {
+      const prepared = await upload.prepare({
+        signal: cancellation.signal,
+        onSettled: (cleanup) => cleanups.push(cleanup),
+      });
+      throwIfCancelled(cancellation.signal);
+      const sentOptions = prepared.options ?? options;
+      Object.assign(event, {
+        size: prepared.size,
+        options: sentOptions,
+        strippedMetadata: prepared.strippedMetadata,
+        imageReport: prepared.imageReport,
+      });
+
+      const headers: Record<string, string> = { ...prepared.headers };
+      if (sentOptions.expiry) headers["expire"] = sentOptions.expiry;
+      if (sentOptions.filename) headers["filename"] = sentOptions.filename;
+
+      const responseText = await this.send(
+        {
+          method: "POST",
+          headers,
+          body: prepared.body,
+          uploadBytes: prepared.size ?? 0,
+          onUploadProgress,
+          failureMessage: upload.failureMessage,
+        },
+        cancellation.signal,
       );
-      await notifyUploadError("URL", error.message);
-      throw error;
+      const url = prepared.urlFragment ? `${responseText.trim()}${prepared.urlFragment}` : responseText;
+      await this.notify("onUploadSuccess", { ...event, url });
+      return url;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      // A cancellation is the user's choice, not a failure worth recording or notifying
+      if (!(apiError instanceof CancelledError)) {
+        const willRetry = transfer.willRetry?.(apiError) ?? false;
+        const kept = willRetry || !transfer.keepFailed || (await transfer.keepFailed(apiError));
+        await this.notify("onUploadError", {
+          ...event,
+          retryId: kept ? event.retryId : undefined,
+          error: apiError,
+          willRetry,
+        });
+      }
+      throw apiError;
+    } finally {
+      settled = true;
+      unlinkCancellation();
+      cleanups.forEach((cleanup) => cleanup().catch(() => {}));
+      this.notify("onUploadSettled", event);
     }
-  } catch (error) {
-    console.error("Failed to shorten URL:", error);
-    const apiError = handleApiError(error);
-    await notifyUploadError("URL", apiError.message);
-    throw apiError;
-  }
-}
-
-export async function listUploads(
-  serverUrl: string,
-  authToken?: string,
-): Promise<
-  { file_name: string; file_size: number; expires_at_utc: string | null }[]
-> {
-  if (!serverUrl) {
-    throw new ApiError("Server URL must be configured");
   }
 
-  const headers: Record<string, string> = { Accept: "*/*" };
-  if (authToken) headers["Authorization"] = authToken;
+  /** The request pipeline shared by every call. Resolves to the response body. */
+  private async send(request: PipelineRequest, signal?: AbortSignal): Promise<string> {
+    const { serverUrl, authToken, timeouts } = this.profile;
+    if (!serverUrl) {
+      throw new ApiError("Server URL must be configured");
+    }
 
-  console.log("Making list request to:", serverUrl, headers);
+    const url = buildServerUrl(this.profile, request.path ?? "/");
+    const headers: Record<string, string> = { Accept: "*/*" };
+    if (authToken) headers["Authorization"] = authToken;
+    Object.assign(headers, request.headers);
 
-  try {
-    const finalUrl = `${formatUrl(serverUrl)}/list`;
+    // Small requests only get the profile's total timeout, uploads additionally
+    // get as long as their size takes at the slowest acceptable speed.
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    const unlinkSignal = linkSignal(controller, signal);
+    const timer = startRequestTimer(
+      controller,
+      timeouts.idleSeconds,
+      timeouts.totalSeconds + (request.uploadBytes ?? 0) / (timeouts.minUploadKBps * 1024),
+    );
+
+    console.log(`Making ${request.method} request to:`, url);
+
+    try {
+      const response = await this.transport({
+        url,
+        method: request.method,
+        headers,
+        body: request.body,
+        signal: controller.signal,
+        onUploadProgress: (bytesSent, totalBytes) => {
+          // A slow upload that is still moving bytes is not idle
+          timer.touch();
+          request.onUploadProgress?.(bytesSent, totalBytes);
+        },
+        onUploadComplete: () => timer.stopIdle(),
+      });
 
-    const response = await fetch(finalUrl, {
-      method: "GET",
-      headers,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    if (response.ok) {
       const responseText = await response.text();
-      try {
-        return JSON.parse(responseText);
-      } catch (e) {
-        throw new ApiError("Invalid JSON response from server");
+      if (response.status >= 200 && response.status < 300) {
+        return responseText;
       }
-    } else {
-      if (response.status === 404) {
-        throw new ApiError(
-          "Make sure expose_list is set to true in your server config",
-          404,
-        );
-      }
-      const responseText = await response.text();
-      console.error("Server response:", response.status, responseText);
-      throw new ApiError(
-        `List request failed: ${responseText || response.statusText}`,
-        response.status,
-      );
-    }
-  } catch (error) {
-    console.error("Failed to list uploads:", error);
-    throw handleApiError(error);
-  }
-}
-
-export async function deleteFile(
-  fileName: string,
-  serverUrl: string,
-  deleteToken: string,
-): Promise<void> {
-  if (!serverUrl) {
-    throw new ApiError("Server URL must be configured");
-  }
-
-  const headers: Record<string, string> = {
-    Accept: "*/*",
-    Authorization: deleteToken,
-  };
 
-  console.log("Making delete request to:", `${serverUrl}/${fileName}`);
-
-  try {
-    const finalUrl = `${formatUrl(serverUrl)}/${fileName}`;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(finalUrl, {
-      method: "DELETE",
-      headers,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new ApiError(
-          "Make sure delete_token is set in your server config",
-          404,
-        );
-      }
-      const responseText = await response.text();
       console.error("Server response:", response.status, responseText);
       throw new ApiError(
-        `Delete failed: ${responseText || response.statusText}`,
+        request.statusMessages?.[response.status] ??
+          `${request.failureMessage}: ${responseText || response.statusText}`,
         response.status,
+        responseText,
       );
+    } catch (error) {
+      console.error(`${request.method} ${url} failed:`, error);
+      throw handleApiError(error, signal, timer);
+    } finally {
+      timer.clear();
+      unlinkSignal();
     }
-  } catch (error) {
-    console.error("Failed to delete file:", error);
-    throw handleApiError(error);
   }
-}
-
-export async function uploadFromRemoteUrl(
-  remoteUrl: string,
-  serverUrl: string,
-  authToken?: string,
-  options: UploadOptions = {},
-): Promise<string> {
-  if (!serverUrl) {
-    const error = new ApiError("Server URL must be configured");
-    await notifyUploadError("remote", error.message);
-    throw error;
-  }
-
-  const formData = new FormData();
-  formData.append("remote", remoteUrl); // TODO: upstream feature request to support oneshot remote uploads
 
-  const headers: Record<string, string> = { Accept: "*/*" };
-  if (authToken) headers["Authorization"] = authToken;
-  if (options.expiry) headers["expire"] = options.expiry;
-
-  console.log("Making remote upload request to:", serverUrl, headers, formData);
-  console.log("Remote URL to fetch:", remoteUrl);
-
-  try {
-    const finalUrl = formatUrl(serverUrl);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(finalUrl, {
-      method: "POST",
-      headers,
-      body: formData,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const responseText = await response.text();
-    if (response.ok) {
-      await notifyUploadSuccess("remote", responseText);
-      return responseText;
-    } else {
-      console.error("Server response:", response.status, responseText);
-      const error = new ApiError(
-        `Remote upload failed: ${responseText || response.statusText}`,
-        response.status,
-      );
-      await notifyUploadError("remote", error.message);
-      throw error;
+  private async notify<K extends keyof UploadObserver>(
+    hook: K,
+    event: Parameters<NonNullable<UploadObserver[K]>>[0],
+  ): Promise<void> {
+    for (const observer of this.observers) {
+      try {
+        const handler = observer[hook] as ((event: unknown) => void | Promise<void>) | undefined;
+        await handler?.call(observer, event);
+      } catch (error) {
+        console.error(`Upload observer ${hook} failed:`, error);
+      }
     }
-  } catch (error) {
-    console.error("Failed to upload from remote URL:", error);
-    const apiError = handleApiError(error);
-    await notifyUploadError("remote", apiError.message);
-    throw apiError;
   }
 }
@@ -0,0 +1,172 @@
+/**
+ * Packs several files into one zip or tar.gz on the device, so a handful of
+ * logs or screenshots can be shared as a single link. Everything happens in
+ * memory, hence the size limit.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { gzipSync, zipSync, type Zippable } from 'fflate';
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './binary';
+import { applyNameTemplate, sanitizeFilename, splitExtension, uniqueFileName } from './filename';
+import type { PickedFile } from './sharing';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface ArchiveEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export const ARCHIVE_FORMATS: { value: ArchiveFormat; label: string }[] = [
+  { value: 'zip', label: 'ZIP' },
+  { value: 'tar.gz', label: 'TAR.GZ' },
+];
+
+export const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+const ARCHIVE_DIRECTORY = `${FileSystem.cacheDirectory}archives/`;
+
+// Deflating these again only costs time
+const COMPRESSED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.heic', '.gif', '.mp4', '.mov', '.webm', '.mp3', '.m4a', '.zip', '.gz', '.7z', '.apk', '.pdf'];
+
+const TAR_BLOCK = 512;
+const TAR_NAME_BYTES = 100;
+
+const tooLargeError = () =>
+  new Error(`Files over ${MAX_ARCHIVE_BYTES / (1024 * 1024)} MB in total are too large to bundle on the device`);
+
+/** "files-2024-03-05-221500", used when no name is given. */
+export function defaultArchiveName(date = new Date()): string {
+  return applyNameTemplate('files-{date}-{time}', { originalName: '', profileName: '', random: '', date });
+}
+
+/**
+ * The archive's file name, which is also the name it is uploaded under:
+ * "logs" becomes "logs.zip", and a name with the right extension is kept.
+ */
+export function archiveFileName(name: string, format: ArchiveFormat): string {
+  const trimmed = name.trim() || defaultArchiveName();
+  const suffix = `.${format}`;
+  return sanitizeFilename(trimmed.toLowerCase().endsWith(suffix) ? trimmed : `${trimmed}${suffix}`);
+}
+
+export function createZip(entries: ArchiveEntry[], date = new Date()): Uint8Array {
+  const files: Zippable = {};
+  for (const { name, data } of entries) {
+    const level = COMPRESSED_EXTENSIONS.includes(splitExtension(name).extension.toLowerCase()) ? 0 : 6;
+    files[name] = [data, { level, mtime: date }];
+  }
+  return zipSync(files);
+}
+
+const writeOctal = (header: Uint8Array, offset: number, length: number, value: number) => {
+  const digits = value.toString(8).padStart(length - 1, '0');
+  for (let i = 0; i < digits.length; i++) {
+    header[offset + i] = digits.charCodeAt(i);
+  }
+};
+
+const writeString = (header: Uint8Array, offset: number, bytes: Uint8Array) => header.set(bytes, offset);
+
+/** Shortens the base of a name until it fits the 100 byte ustar name field. */
+function fitTarName(name: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const { base, extension } = splitExtension(name);
+  let encoded = encoder.encode(name);
+  for (let length = base.length - 1; encoded.length > TAR_NAME_BYTES && length > 0; length--) {
+    encoded = encoder.encode(`${base.slice(0, length)}${extension}`);
+  }
+  return encoded.subarray(0, TAR_NAME_BYTES);
+}
+
+function tarHeader(name: string, size: number, date: Date): Uint8Array {
+  const header = new Uint8Array(TAR_BLOCK);
+  const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+  writeString(header, 0, fitTarName(name));
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(date.getTime() / 1000));
+  header[156] = '0'.charCodeAt(0);
+  writeString(header, 257, ascii('ustar\u000000'));
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeOctal(header, 148, 7, checksum);
+  header[155] = 0x20;
+  return header;
+}
+
+export function createTarGz(entries: ArchiveEntry[], date = new Date()): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  for (const { name, data } of entries) {
+    blocks.push(tarHeader(name, data.length, date), data);
+    const padding = (TAR_BLOCK - (data.length % TAR_BLOCK)) % TAR_BLOCK;
+    if (padding) blocks.push(new Uint8Array(padding));
+  }
+  // Two empty blocks mark the end of the archive
+  blocks.push(new Uint8Array(TAR_BLOCK * 2));
+  return gzipSync(concatBytes(...blocks), { mtime: date });
+}
+
+/**
+ * Writes an archive of the files to the cache. Entry names are the files'
+ * names, numbered when two are the same. Throws when the files are too
+ * large to pack in memory.
+ */
+export async function bundleFiles(
+  files: PickedFile[],
+  name: string,
+  format: ArchiveFormat,
+): Promise<{ uri: string; contents: string[] }> {
+  // Fail before reading anything when the pickers already told us the sizes
+  if (files.reduce((total, file) => total + (file.size ?? 0), 0) > MAX_ARCHIVE_BYTES) {
+    throw tooLargeError();
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const taken = new Set<string>();
+  let totalBytes = 0;
+
+  for (const file of files) {
+    const data = base64ToBytes(await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.Base64 }));
+    totalBytes += data.length;
+    if (totalBytes > MAX_ARCHIVE_BYTES) {
+      throw tooLargeError();
+    }
+    const entryName = uniqueFileName(file.name, taken);
+    taken.add(entryName);
+    entries.push({ name: entryName, data });
+  }
+
+  const archive = format === 'zip' ? createZip(entries) : createTarGz(entries);
+  const directory = `${ARCHIVE_DIRECTORY}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const uri = `${directory}${archiveFileName(name, format)}`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(archive), { encoding: FileSystem.EncodingType.Base64 });
+  return { uri, contents: entries.map(entry => entry.name) };
+}
+
+/** Deletes an archive made by bundleFiles. */
+export async function discardArchive(uri: string): Promise<void> {
+  await FileSystem.deleteAsync(uri.slice(0, uri.lastIndexOf('/') + 1), { idempotent: true });
+}
+
+/** Bundles the files, hands the archive to `upload` and deletes it afterwards. */
+export async function withArchive<T>(
+  files: PickedFile[],
+  name: string,
+  format: ArchiveFormat,
+  upload: (uri: string, contents: string[]) => Promise<T>,
+): Promise<T> {
+  const archive = await bundleFiles(files, name, format);
+  try {
+    return await upload(archive.uri, archive.contents);
+  } finally {
+    discardArchive(archive.uri).catch(error => console.error('Failed to delete archive:', error));
+  }
+}
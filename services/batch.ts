@@ -0,0 +1,103 @@
+/**
+ * Several files uploaded as one batch, a few at a time, with the outcome of
+ * each kept so failed ones can be retried and all links copied at once.
+ */
+
+import type { UploadProgress } from './progress';
+import type { PickedFile } from './sharing';
+
+/** Enough to keep the connection busy without starving each upload of bandwidth. */
+export const MAX_PARALLEL_UPLOADS = 3;
+
+/** How the links of a batch are put on the clipboard together. */
+export type UrlListFormat = 'lines' | 'spaces' | 'markdown' | 'json';
+
+export const URL_LIST_FORMATS: { value: UrlListFormat; label: string }[] = [
+  { value: 'lines', label: 'One per line' },
+  { value: 'spaces', label: 'Space separated' },
+  { value: 'markdown', label: 'Markdown list' },
+  { value: 'json', label: 'JSON' },
+];
+
+export type BatchItemStatus = 'waiting' | 'uploading' | 'done' | 'queued' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: PickedFile;
+  status: BatchItemStatus;
+  progress: UploadProgress | null;
+  url: string | null;
+  error: string | null;
+}
+
+export function createBatchItems(files: PickedFile[]): BatchItem[] {
+  const prefix = Date.now().toString(36);
+  return files.map((file, index) => ({
+    id: `${prefix}-${index}`,
+    file,
+    status: 'waiting',
+    progress: null,
+    url: null,
+    error: null,
+  }));
+}
+
+/** Items worth another attempt; queued ones are already retried by the upload queue. */
+export const isRetryable = (item: BatchItem) => item.status === 'failed' || item.status === 'cancelled';
+
+export const isSettled = (item: BatchItem) => item.status !== 'waiting' && item.status !== 'uploading';
+
+/** Whether the user called off every upload, leaving nothing worth a summary. */
+export const isWhollyCancelled = (items: BatchItem[]) => items.every(item => item.status === 'cancelled');
+
+/** "7 of 10 uploaded · 2 failed · 1 queued" */
+export function describeBatch(items: BatchItem[]): string {
+  const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+  const parts = [`${count('done')} of ${items.length} uploaded`];
+  if (count('failed')) parts.push(`${count('failed')} failed`);
+  if (count('cancelled')) parts.push(`${count('cancelled')} cancelled`);
+  if (count('queued')) parts.push(`${count('queued')} queued`);
+  return parts.join(' · ');
+}
+
+/** The links of the uploaded items, in the order they were picked. */
+export function formatUrlList(items: BatchItem[], format: UrlListFormat): string {
+  const uploaded = items.flatMap(item => (item.url ? [{ name: item.file.name, url: item.url }] : []));
+  switch (format) {
+    case 'lines':
+      return uploaded.map(({ url }) => url).join('\n');
+    case 'spaces':
+      return uploaded.map(({ url }) => url).join(' ');
+    case 'markdown':
+      return uploaded.map(({ name, url }) => `- [${name.replace(/([\[\]])/g, '\\$1')}](${url})`).join('\n');
+    case 'json':
+      return JSON.stringify(uploaded.map(({ name, url }) => ({ file: name, url })), null, 2);
+  }
+}
+
+/**
+ * Runs `task` for every item with at most `limit` running at once. Results
+ * keep the order of `items`; a failing task does not stop the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,11 @@
+import type { ServerProfile } from '@/contexts/SettingsContext';
+import { RustypasteClient } from './api';
+import { historyObserver } from './history';
+import { notificationObserver } from './notifications';
+
+/** A client for the profile's server that records history and shows notifications. */
+export function createClient(profile: ServerProfile): RustypasteClient {
+  return new RustypasteClient(profile, {
+    observers: [historyObserver, notificationObserver],
+  });
+}
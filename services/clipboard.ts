@@ -0,0 +1,52 @@
+/**
+ * Reads whatever is on the clipboard and works out how to upload it: text
+ * as a paste, a lone link as a short URL and an image as a file. Nothing is
+ * uploaded from here; the caller shows the content for confirmation first.
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import * as FileSystem from 'expo-file-system';
+
+export type ClipboardContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'url'; url: string }
+  | { kind: 'image'; uri: string; name: string; width: number; height: number };
+
+const CLIPBOARD_DIRECTORY = `${FileSystem.cacheDirectory}clipboard/`;
+
+/** A single http(s) link with nothing around it; anything else is a paste. */
+export function classifyClipboardText(text: string): ClipboardContent | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  return /^https?:\/\/\S+$/i.test(trimmed) ? { kind: 'url', url: trimmed } : { kind: 'text', text: trimmed };
+}
+
+/**
+ * Resolves to null when the clipboard is empty. An image is written to the
+ * cache, to be removed with discardClipboardContent.
+ */
+export async function readClipboard(): Promise<ClipboardContent | null> {
+  if (await Clipboard.hasImageAsync()) {
+    const image = await Clipboard.getImageAsync({ format: 'png' });
+    if (image) {
+      const directory = `${CLIPBOARD_DIRECTORY}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}/`;
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+      const uri = `${directory}clipboard.png`;
+      await FileSystem.writeAsStringAsync(uri, image.data.slice(image.data.indexOf(',') + 1), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      return { kind: 'image', uri, name: 'clipboard.png', width: image.size.width, height: image.size.height };
+    }
+  }
+
+  return classifyClipboardText(await Clipboard.getStringAsync());
+}
+
+/** Deletes the cached copy of a clipboard image; other content needs no cleanup. */
+export async function discardClipboardContent(content: ClipboardContent): Promise<void> {
+  if (content.kind === 'image') {
+    await FileSystem.deleteAsync(content.uri.slice(0, content.uri.lastIndexOf('/') + 1), { idempotent: true });
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * droidypaste:// links that start an upload without going through the UI,
+ * for Tasker, launchers and other apps. Following the x-callback-url
+ * convention, `x-success` is opened with the resulting URL appended and
+ * `x-error` with the reason the upload failed. Any app or web page can open
+ * these links, so each upload is confirmed first and callbacks may only lead
+ * to apps.
+ *
+ *   droidypaste://upload/text?text=hello&expiry=1h&oneshot=1
+ *   droidypaste://shorten?url=https://example.com
+ *   droidypaste://upload/clipboard?x-success=tasker://done
+ */
+
+import { isValidExpiry } from './expiry';
+
+export const DEEP_LINK_SCHEME = 'droidypaste';
+
+export type DeepLinkAction = 'upload/text' | 'shorten' | 'upload/clipboard';
+
+export interface DeepLinkRequest {
+  action: DeepLinkAction;
+  /** Every query parameter, decoded; the action reads the ones it needs. */
+  params: Record<string, string>;
+  successUrl?: string;
+  errorUrl?: string;
+}
+
+const ACTIONS: DeepLinkAction[] = ['upload/text', 'shorten', 'upload/clipboard'];
+
+// Schemes that would hand the result to a web page rather than an app
+const BLOCKED_CALLBACK_SCHEMES = ['http', 'https', 'javascript', 'data', 'file'];
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    // Malformed escapes are passed through rather than dropping the link
+    return value;
+  }
+};
+
+/**
+ * Accepts a full droidypaste:// URL or the path expo-router hands over.
+ * Returns null for anything that is not one of the automation actions.
+ */
+export function parseDeepLink(link: string): DeepLinkRequest | null {
+  const withoutScheme = link.replace(new RegExp(`^${DEEP_LINK_SCHEME}:(//)?`, 'i'), '');
+  const queryStart = withoutScheme.indexOf('?');
+  const path = (queryStart === -1 ? withoutScheme : withoutScheme.slice(0, queryStart)).replace(/^\/+|\/+$/g, '');
+  const action = ACTIONS.find(candidate => candidate === path.toLowerCase());
+  if (!action) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  if (queryStart !== -1) {
+    for (const pair of withoutScheme.slice(queryStart + 1).split('&')) {
+      if (!pair) continue;
+      const separator = pair.indexOf('=');
+      const key = decode(separator === -1 ? pair : pair.slice(0, separator));
+      params[key] = separator === -1 ? '' : decode(pair.slice(separator + 1));
+    }
+  }
+
+  return {
+    action,
+    params,
+    successUrl: params['x-success'] || undefined,
+    errorUrl: params['x-error'] || undefined,
+  };
+}
+
+/**
+ * The upload options a link asks for, with the profile's own as fallback.
+ * Throws on values the server would reject.
+ */
+export function deepLinkOptions(
+  request: DeepLinkRequest,
+  defaults: { expiry: string; oneshot: boolean },
+): { expiry?: string; oneshot?: boolean; filename?: string } {
+  const { expiry, oneshot, filename } = request.params;
+  if (expiry !== undefined && !isValidExpiry(expiry)) {
+    throw new Error(`Invalid expiry "${expiry}"`);
+  }
+  return {
+    expiry: (expiry ?? defaults.expiry).trim() || undefined,
+    oneshot: oneshot !== undefined ? ['1', 'true', 'yes'].includes(oneshot.toLowerCase()) : defaults.oneshot,
+    filename: filename?.trim() || undefined,
+  };
+}
+
+/** Whether a callback URL opens an app, never a web page that could collect the result. */
+export function isAllowedCallbackUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim())?.[1].toLowerCase();
+  return !!scheme && !BLOCKED_CALLBACK_SCHEMES.includes(scheme);
+}
+
+/** The question the user answers before a link may upload anything. */
+export function describeDeepLink(request: DeepLinkRequest, profileName: string): string {
+  const { text = '', url = '' } = request.params;
+  const preview = text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  const question = {
+    'upload/text': `Upload "${preview}" to ${profileName}?`,
+    shorten: `Shorten ${url} with ${profileName}?`,
+    'upload/clipboard': `Upload your clipboard to ${profileName}?`,
+  }[request.action];
+  return request.successUrl ? `${question}\n\nThe link will be passed to ${request.successUrl}` : question;
+}
+
+/** Appends the parameters to a callback URL, which may already have a query. */
+export function buildCallbackUrl(base: string, params: Record<string, string>): string {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  const separator = /[?&]$/.test(base) ? '' : base.includes('?') ? '&' : '?';
+  return `${base}${separator}${query}`;
+}
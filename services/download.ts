@@ -0,0 +1,231 @@
+/**
+ * Saving pastes into a folder picked through the Storage Access Framework.
+ * SAF documents cannot be written as a stream, so each file is downloaded
+ * into the cache first and copied over once complete. That copy passes
+ * through JS as base64, which is why downloads are capped at MAX_SAVE_BYTES.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+
+import { ApiError, CancelledError } from './api';
+import { splitExtension, uniqueFileName } from './filename';
+import { createProgressTracker, type ProgressCallback, type UploadProgress } from './progress';
+
+const { StorageAccessFramework } = FileSystem;
+
+const DOWNLOAD_FOLDER_KEY = 'downloadFolder';
+const DOWNLOAD_CACHE_DIRECTORY = `${FileSystem.cacheDirectory}downloads/`;
+
+export const MAX_SAVE_BYTES = 50 * 1024 * 1024;
+const TOO_LARGE_MESSAGE = `Files over ${MAX_SAVE_BYTES / (1024 * 1024)} MB are too large to save to a folder`;
+
+/** What to do when the folder already has a file with the same name. */
+export type CollisionPolicy = 'rename' | 'replace' | 'skip';
+
+export interface DownloadItem {
+  fileName: string;
+  url: string;
+}
+
+export type DownloadStatus = 'saved' | 'skipped' | 'failed';
+
+export interface DownloadResult {
+  fileName: string;
+  status: DownloadStatus;
+  /** Name on the device, which differs from fileName after a rename. */
+  savedAs?: string;
+  error?: string;
+}
+
+export interface DownloadOptions {
+  collisionPolicy: CollisionPolicy;
+  signal?: AbortSignal;
+  onProgress?: (index: number, progress: UploadProgress) => void;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+};
+
+// With an unknown type Android keeps the display name exactly as given
+const mimeTypeFor = (fileName: string) =>
+  MIME_TYPES[splitExtension(fileName).extension.slice(1).toLowerCase()] ?? 'application/octet-stream';
+
+/** The display name at the end of a SAF document URI. */
+function documentName(uri: string): string {
+  return decodeURIComponent(uri).split('/').pop() ?? '';
+}
+
+/**
+ * The remembered download folder, asking for one when there is none yet,
+ * when its permission was revoked, or when `choose` is set.
+ * Resolves to null if the user dismisses the picker.
+ */
+export async function getDownloadFolder(choose = false): Promise<string | null> {
+  const stored = await AsyncStorage.getItem(DOWNLOAD_FOLDER_KEY);
+  if (stored && !choose) {
+    try {
+      await StorageAccessFramework.readDirectoryAsync(stored);
+      return stored;
+    } catch {
+      // Permission is gone, fall through to picking again
+    }
+  }
+
+  const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync(stored);
+  if (!permission.granted) {
+    return null;
+  }
+  await AsyncStorage.setItem(DOWNLOAD_FOLDER_KEY, permission.directoryUri);
+  return permission.directoryUri;
+}
+
+/** File names in the folder, mapped to their document URIs. */
+export async function listFolder(folderUri: string): Promise<Map<string, string>> {
+  const uris = await StorageAccessFramework.readDirectoryAsync(folderUri);
+  return new Map(uris.map(uri => [documentName(uri), uri]));
+}
+
+async function downloadToCache(item: DownloadItem, signal: AbortSignal | undefined, onProgress: ProgressCallback): Promise<string> {
+  await FileSystem.makeDirectoryAsync(DOWNLOAD_CACHE_DIRECTORY, { intermediates: true });
+  const cacheUri = `${DOWNLOAD_CACHE_DIRECTORY}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  const track = createProgressTracker(onProgress);
+  let tooLarge = false;
+
+  const task = FileSystem.createDownloadResumable(item.url, cacheUri, {}, ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+    // Stop as soon as the size is known rather than fetch what can't be saved
+    if (Math.max(totalBytesWritten, totalBytesExpectedToWrite) > MAX_SAVE_BYTES) {
+      if (!tooLarge) {
+        tooLarge = true;
+        task.cancelAsync();
+      }
+      return;
+    }
+    track(totalBytesWritten, totalBytesExpectedToWrite);
+  });
+  const cancel = () => task.cancelAsync();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    let result: FileSystem.FileSystemDownloadResult | undefined;
+    try {
+      result = await task.downloadAsync();
+    } catch (error) {
+      if (tooLarge) {
+        throw new Error(TOO_LARGE_MESSAGE);
+      }
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      throw new ApiError('Unable to connect to server. Please check your internet connection.');
+    }
+
+    if (tooLarge) {
+      throw new Error(TOO_LARGE_MESSAGE);
+    }
+    // A cancelled task resolves without a result
+    if (!result || signal?.aborted) {
+      throw new CancelledError();
+    }
+    if (result.status >= 400) {
+      throw new ApiError(
+        result.status === 404 ? 'This paste does not exist or has expired' : `Server responded with status ${result.status}`,
+        result.status,
+      );
+    }
+    return cacheUri;
+  } catch (error) {
+    await FileSystem.deleteAsync(cacheUri, { idempotent: true });
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Downloads the items one after another into the folder. `existing` comes
+ * from listFolder and is kept up to date, so a batch never collides with
+ * itself. Cancelling stops the batch; items not reached are left out.
+ */
+export async function downloadFiles(
+  items: DownloadItem[],
+  folderUri: string,
+  existing: Map<string, string>,
+  { collisionPolicy, signal, onProgress }: DownloadOptions,
+): Promise<DownloadResult[]> {
+  const results: DownloadResult[] = [];
+
+  for (const [index, item] of items.entries()) {
+    if (signal?.aborted) {
+      break;
+    }
+
+    const existingUri = existing.get(item.fileName);
+    if (existingUri && collisionPolicy === 'skip') {
+      results.push({ fileName: item.fileName, status: 'skipped' });
+      continue;
+    }
+
+    let cacheUri: string | undefined;
+    let targetUri: string | undefined;
+    let written = false;
+    try {
+      cacheUri = await downloadToCache(item, signal, progress => onProgress?.(index, progress));
+
+      const targetName = uniqueFileName(item.fileName, new Set(existing.keys()));
+      targetUri = await StorageAccessFramework.createFileAsync(folderUri, targetName, mimeTypeFor(targetName));
+      const contents = await FileSystem.readAsStringAsync(cacheUri, { encoding: FileSystem.EncodingType.Base64 });
+      await StorageAccessFramework.writeAsStringAsync(targetUri, contents, { encoding: FileSystem.EncodingType.Base64 });
+      written = true;
+
+      // Only once the new copy is complete, so a failed download never costs the original.
+      // SAF can't rename, so the new copy keeps the name it was written under.
+      if (existingUri && collisionPolicy === 'replace') {
+        await StorageAccessFramework.deleteAsync(existingUri, { idempotent: true }).then(
+          () => existing.delete(item.fileName),
+          error => console.error('Failed to delete replaced file:', error),
+        );
+      }
+
+      // The provider may have adjusted the name itself
+      const savedAs = documentName(targetUri) || targetName;
+      existing.set(savedAs, targetUri);
+      results.push({ fileName: item.fileName, status: 'saved', savedAs });
+    } catch (error) {
+      // Don't leave an empty or partly written document behind
+      if (targetUri && !written) {
+        await StorageAccessFramework.deleteAsync(targetUri, { idempotent: true }).catch(() => {});
+      }
+      if (error instanceof CancelledError) {
+        break;
+      }
+      results.push({
+        fileName: item.fileName,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      if (cacheUri) {
+        await FileSystem.deleteAsync(cacheUri, { idempotent: true });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,171 @@
+/**
+ * End-to-end encryption for pastes. Content is sealed with
+ * XChaCha20-Poly1305 before upload and the key only ever travels in the URL
+ * fragment, which is never sent to the server. With a passphrase the key is
+ * derived with scrypt instead, and the fragment merely marks the link.
+ *
+ * Sealed layout: "DPE1", mode byte, [scrypt log2(N) byte, 16 byte salt],
+ * 24 byte nonce, then the ciphertext of [u16 name length, name, content].
+ * Everything before the ciphertext is authenticated as associated data.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { getRandomBytes } from 'expo-crypto';
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './binary';
+
+export interface EncryptionOptions {
+  /** Derive the key from this instead of generating one for the link. */
+  passphrase?: string;
+}
+
+/** What the URL fragment says about how to open a paste. */
+export type PasteSecret = { type: 'key'; key: Uint8Array } | { type: 'passphrase' };
+
+export interface SealedPaste {
+  data: Uint8Array;
+  /** To append to the paste URL, including the leading "#". */
+  fragment: string;
+}
+
+export interface OpenedPaste {
+  name: string;
+  content: Uint8Array;
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const MAGIC = [0x44, 0x50, 0x45, 0x31];
+const MODE_KEY = 0;
+const MODE_PASSPHRASE = 1;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const SALT_BYTES = 16;
+const SCRYPT_LOG_N = 15;
+
+const KEY_FRAGMENT = '#key=';
+const PASSPHRASE_FRAGMENT = '#passphrase';
+
+const toBase64Url = (bytes: Uint8Array) =>
+  bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  base64ToBytes(value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4));
+
+// TextDecoder is missing on Hermes; only used for names, which are short
+const decodeUtf8 = (bytes: Uint8Array) =>
+  decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+const deriveKey = (passphrase: string, salt: Uint8Array, logN: number) =>
+  scryptAsync(new TextEncoder().encode(passphrase.normalize('NFKC')), salt, { N: 2 ** logN, r: 8, p: 1, dkLen: KEY_BYTES });
+
+export async function sealPaste(name: string, content: Uint8Array, { passphrase }: EncryptionOptions = {}): Promise<SealedPaste> {
+  let header: Uint8Array;
+  let key: Uint8Array;
+  let fragment: string;
+
+  if (passphrase) {
+    const salt = getRandomBytes(SALT_BYTES);
+    key = await deriveKey(passphrase, salt, SCRYPT_LOG_N);
+    header = concatBytes(new Uint8Array([...MAGIC, MODE_PASSPHRASE, SCRYPT_LOG_N]), salt);
+    fragment = PASSPHRASE_FRAGMENT;
+  } else {
+    key = getRandomBytes(KEY_BYTES);
+    header = new Uint8Array([...MAGIC, MODE_KEY]);
+    fragment = `${KEY_FRAGMENT}${toBase64Url(key)}`;
+  }
+
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const encodedName = new TextEncoder().encode(name);
+  const plaintext = concatBytes(new Uint8Array([encodedName.length >> 8, encodedName.length & 0xff]), encodedName, content);
+  const associatedData = concatBytes(header, nonce);
+  const ciphertext = xchacha20poly1305(key, nonce, associatedData).encrypt(plaintext);
+
+  return { data: concatBytes(associatedData, ciphertext), fragment };
+}
+
+export function isSealedPaste(data: Uint8Array): boolean {
+  return data.length > MAGIC.length && MAGIC.every((byte, index) => data[index] === byte);
+}
+
+/** Whether the sealed data needs a passphrase rather than a key from the link. */
+export function needsPassphrase(data: Uint8Array): boolean {
+  return isSealedPaste(data) && data[MAGIC.length] === MODE_PASSPHRASE;
+}
+
+/** Throws DecryptionError for a wrong key or passphrase, or tampered data. */
+export async function openPaste(data: Uint8Array, secret: { key?: Uint8Array; passphrase?: string }): Promise<OpenedPaste> {
+  if (!isSealedPaste(data)) {
+    throw new DecryptionError('This paste is not encrypted');
+  }
+
+  let offset = MAGIC.length + 1;
+  let key: Uint8Array;
+  if (data[MAGIC.length] === MODE_PASSPHRASE) {
+    if (!secret.passphrase) {
+      throw new DecryptionError('This paste is protected by a passphrase');
+    }
+    const logN = data[offset];
+    // Refuse work factors this app never writes, which could hang the device
+    if (logN < 10 || logN > 20) {
+      throw new DecryptionError('Unsupported passphrase settings');
+    }
+    const salt = data.subarray(offset + 1, offset + 1 + SALT_BYTES);
+    offset += 1 + SALT_BYTES;
+    key = await deriveKey(secret.passphrase, salt, logN);
+  } else {
+    if (!secret.key) {
+      throw new DecryptionError('The link is missing the decryption key');
+    }
+    key = secret.key;
+  }
+
+  const nonce = data.subarray(offset, offset + NONCE_BYTES);
+  offset += NONCE_BYTES;
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = xchacha20poly1305(key, nonce, data.subarray(0, offset)).decrypt(data.subarray(offset));
+  } catch {
+    throw new DecryptionError(secret.passphrase ? 'Wrong passphrase' : 'The key does not match, or the paste was modified');
+  }
+
+  const nameLength = (plaintext[0] << 8) | plaintext[1];
+  return {
+    name: decodeUtf8(plaintext.subarray(2, 2 + nameLength)),
+    content: plaintext.subarray(2 + nameLength),
+  };
+}
+
+/** Reads the key or passphrase marker from a paste URL; null for plain pastes. */
+export function parseSecretFragment(url: string): PasteSecret | null {
+  const hashIndex = url.indexOf('#');
+  if (hashIndex === -1) {
+    return null;
+  }
+  const fragment = url.slice(hashIndex);
+  if (fragment === PASSPHRASE_FRAGMENT) {
+    return { type: 'passphrase' };
+  }
+  if (fragment.startsWith(KEY_FRAGMENT)) {
+    try {
+      const key = fromBase64Url(fragment.slice(KEY_FRAGMENT.length));
+      return key.length === KEY_BYTES ? { type: 'key', key } : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/** The URL without its fragment, which must never be sent over the network. */
+export function stripFragment(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.slice(0, hashIndex);
+}
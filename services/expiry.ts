@@ -0,0 +1,120 @@
+/**
+ * rustypaste parses the `expire` header with the humantime crate: integer
+ * amounts followed by a unit, optionally several of them ("1h 30m").
+ * Mirroring that here lets bad values be caught before uploading.
+ */
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+// humantime's calendar approximations
+const MONTH = 2_630_016 * SECOND;
+const YEAR = 31_557_600 * SECOND;
+
+const UNITS: Record<string, number> = {
+  nsec: 1e-6, ns: 1e-6,
+  usec: 1e-3, us: 1e-3,
+  msec: 1, ms: 1,
+  seconds: SECOND, second: SECOND, sec: SECOND, secs: SECOND, s: SECOND,
+  minutes: MINUTE, minute: MINUTE, min: MINUTE, mins: MINUTE, m: MINUTE,
+  hours: HOUR, hour: HOUR, hr: HOUR, hrs: HOUR, h: HOUR,
+  days: DAY, day: DAY, d: DAY,
+  weeks: WEEK, week: WEEK, w: WEEK,
+  months: MONTH, month: MONTH, M: MONTH,
+  years: YEAR, year: YEAR, y: YEAR,
+};
+
+export type ParsedExpiry =
+  | { ok: true; milliseconds: number }
+  | { ok: false; error: string };
+
+export const EXPIRY_PRESETS: { label: string; value: string }[] = [
+  { label: '10 min', value: '10min' },
+  { label: '1 hour', value: '1h' },
+  { label: '1 day', value: '1d' },
+  { label: '1 week', value: '1w' },
+  { label: '30 days', value: '30d' },
+];
+
+/** Parses a non-empty expiry; an empty value means "never" and is up to the caller. */
+export function parseExpiry(input: string): ParsedExpiry {
+  const value = input.trim();
+  if (!value) {
+    return { ok: false, error: 'Enter a duration such as 10min, 1h 30m or 2d' };
+  }
+
+  let milliseconds = 0;
+  const pattern = /(\d+)\s*([A-Za-z]+)\s*/y;
+  let index = 0;
+  while (index < value.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(value);
+    if (!match) {
+      return /^\d+\s*$/.test(value.slice(index))
+        ? { ok: false, error: `Add a unit after ${value.slice(index).trim()}, e.g. ${value.slice(index).trim()}min` }
+        : { ok: false, error: `Unexpected "${value.slice(index)}"` };
+    }
+    const unit = UNITS[match[2]];
+    if (unit === undefined) {
+      return { ok: false, error: `Unknown unit "${match[2]}"` };
+    }
+    milliseconds += Number(match[1]) * unit;
+    index = pattern.lastIndex;
+  }
+
+  if (milliseconds < SECOND) {
+    return { ok: false, error: 'Expiry must be at least one second' };
+  }
+  return { ok: true, milliseconds };
+}
+
+const FORMAT_UNITS: [number, string, string][] = [
+  [DAY, 'd', 'day'],
+  [HOUR, 'h', 'hour'],
+  [MINUTE, 'min', 'minute'],
+  [SECOND, 's', 'second'],
+];
+
+function splitDuration(milliseconds: number): [number, string, string][] {
+  const parts: [number, string, string][] = [];
+  let remaining = Math.round(milliseconds / SECOND) * SECOND;
+  for (const [size, short, long] of FORMAT_UNITS) {
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) {
+      parts.push([amount, short, long]);
+      remaining -= amount * size;
+    }
+  }
+  return parts;
+}
+
+/** The duration in rustypaste syntax, e.g. "1d 2h 30min". */
+export function formatExpiry(milliseconds: number): string {
+  return splitDuration(milliseconds).map(([amount, short]) => `${amount}${short}`).join(' ');
+}
+
+/** Reads like "1 day 2 hours"; only the two largest units are kept. */
+export function humanizeDuration(milliseconds: number): string {
+  return splitDuration(milliseconds)
+    .slice(0, 2)
+    .map(([amount, , long]) => `${amount} ${long}${amount === 1 ? '' : 's'}`)
+    .join(' ');
+}
+
+/** "Expires at 14:32 tomorrow", or with a date once it is over a week out. */
+export function describeExpiryTime(milliseconds: number, now = new Date()): string {
+  const expiresAt = new Date(now.getTime() + milliseconds);
+  const time = expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(expiresAt) - startOfDay(now)) / DAY);
+
+  if (days === 0) return `Expires at ${time} today`;
+  if (days === 1) return `Expires at ${time} tomorrow`;
+  if (days < 7) return `Expires at ${time} on ${expiresAt.toLocaleDateString([], { weekday: 'long' })}`;
+  return `Expires on ${expiresAt.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })} at ${time}`;
+}
+
+/** Whether an expiry field can be submitted; empty means the paste never expires. */
+export const isValidExpiry = (input: string) => !input.trim() || parseExpiry(input).ok;
@@ -0,0 +1,99 @@
+/**
+ * Names uploads are stored under on the server, sent as rustypaste's
+ * `filename` header. A per-upload custom name wins over the profile's naming
+ * template, and without either the server picks the name as before.
+ */
+
+import type { ServerProfile } from '@/contexts/SettingsContext';
+
+export const NAME_TEMPLATE_PLACEHOLDERS = ['{original}', '{date}', '{time}', '{profile}', '{random}'] as const;
+
+const MAX_FILENAME_LENGTH = 128;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Splits off a short extension such as ".txt"; names like "archive.tar.gz" keep ".gz". */
+export function splitExtension(name: string): { base: string; extension: string } {
+  const match = name.match(/^(.+?)(\.[A-Za-z0-9]{1,10})$/);
+  return match ? { base: match[1], extension: match[2] } : { base: name, extension: '' };
+}
+
+/** "notes.txt" becomes "notes (1).txt", then "notes (2).txt" and so on. */
+export function uniqueFileName(fileName: string, taken: Set<string>): string {
+  if (!taken.has(fileName)) {
+    return fileName;
+  }
+  const { base, extension } = splitExtension(fileName);
+  let counter = 1;
+  while (taken.has(`${base} (${counter})${extension}`)) {
+    counter++;
+  }
+  return `${base} (${counter})${extension}`;
+}
+
+/**
+ * Reduces a name to characters that are safe in a URL path and on the
+ * server's disk: no separators, no leading dots, no whitespace.
+ */
+export function sanitizeFilename(name: string): string {
+  const { base, extension } = splitExtension(name.trim());
+  const cleanBase = base
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[.-]+|[.-]+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH - extension.length);
+  return `${cleanBase || 'file'}${extension.toLowerCase()}`;
+}
+
+export interface NameTemplateValues {
+  originalName: string;
+  profileName: string;
+  date?: Date;
+  /** Fixed so that a preview and the upload that follows agree. */
+  random: string;
+}
+
+export function generateRandomToken(): string {
+  return Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+}
+
+/**
+ * Expands a template such as "{date}-{original}". The original extension is
+ * kept unless the template already ends with an extension of its own.
+ */
+export function applyNameTemplate(template: string, values: NameTemplateValues): string {
+  const date = values.date ?? new Date();
+  const { base, extension } = splitExtension(values.originalName);
+  const expanded = template
+    .replace(/\{original\}/g, base)
+    .replace(/\{date\}/g, `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`)
+    .replace(/\{time\}/g, `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`)
+    .replace(/\{profile\}/g, values.profileName)
+    .replace(/\{random\}/g, values.random);
+
+  return sanitizeFilename(splitExtension(expanded).extension ? expanded : `${expanded}${extension}`);
+}
+
+/**
+ * The name to send for an upload, or undefined to let the server decide.
+ * A custom name without an extension inherits the original one.
+ */
+export function resolveUploadFilename(
+  profile: Pick<ServerProfile, 'name' | 'nameTemplate'>,
+  originalName: string,
+  customName = '',
+  random = generateRandomToken(),
+): string | undefined {
+  if (customName.trim()) {
+    const { extension } = splitExtension(customName.trim());
+    return sanitizeFilename(extension ? customName : `${customName}${splitExtension(originalName).extension}`);
+  }
+  if (profile.nameTemplate.trim()) {
+    return applyNameTemplate(profile.nameTemplate.trim(), {
+      originalName,
+      profileName: profile.name,
+      random,
+    });
+  }
+  return undefined;
+}
@@ -0,0 +1,139 @@
+/**
+ * Local record of every upload attempt made from the app.
+ * Rustypaste only reports the resulting URL once, and `/list` is unavailable
+ * when `expose_list` is off, so this is the only place past results survive.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { UploadEvent, UploadKind, UploadObserver } from './api';
+import type { ImageProcessingReport } from './imageProcessing';
+import { buildServerUrl } from './serverUrl';
+
+export type HistoryUploadType = UploadKind;
+
+export interface HistoryEntry {
+  id: string;
+  type: HistoryUploadType;
+  originalName: string;
+  size: number | null;
+  url: string | null;
+  serverUrl: string;
+  profileName: string;
+  expiry: string | null;
+  oneshot: boolean;
+  timestamp: number;
+  success: boolean;
+  errorMessage?: string;
+  /** Estimated and actual size of a resized image, kept for tuning the settings. */
+  imageReport?: ImageProcessingReport;
+  /** Files packed into an uploaded archive. */
+  archiveContents?: string[];
+}
+
+const HISTORY_KEY = 'uploadHistory';
+const MAX_HISTORY_ENTRIES = 500;
+
+// Serializes read-modify-write cycles so concurrent uploads don't drop entries
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task, task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function readHistory(): Promise<HistoryEntry[]> {
+  const stored = await AsyncStorage.getItem(HISTORY_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Discarding corrupt upload history:', error);
+    return [];
+  }
+}
+
+async function writeHistory(entries: HistoryEntry[]): Promise<void> {
+  await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+}
+
+/** Returns all recorded uploads, newest first. */
+export async function getHistory(): Promise<HistoryEntry[]> {
+  await writeQueue;
+  return readHistory();
+}
+
+export function addHistoryEntry(
+  entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+): Promise<HistoryEntry> {
+  return enqueueWrite(async () => {
+    const timestamp = Date.now();
+    const created: HistoryEntry = {
+      ...entry,
+      id: `${timestamp.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      timestamp,
+    };
+
+    const entries = await readHistory();
+    await writeHistory([created, ...entries].slice(0, MAX_HISTORY_ENTRIES));
+    return created;
+  });
+}
+
+export function removeHistoryEntry(id: string): Promise<void> {
+  return enqueueWrite(async () => {
+    const entries = await readHistory();
+    await writeHistory(entries.filter((entry) => entry.id !== id));
+  });
+}
+
+export function clearHistory(): Promise<void> {
+  return enqueueWrite(() => AsyncStorage.removeItem(HISTORY_KEY));
+}
+
+export function searchHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return entries;
+  }
+
+  return entries.filter((entry) =>
+    [entry.originalName, entry.url, entry.serverUrl, entry.profileName, entry.type, entry.errorMessage, ...(entry.archiveContents ?? [])]
+      .some((value) => value?.toLowerCase().includes(needle)),
+  );
+}
+
+const toHistoryEntry = (event: UploadEvent): Omit<HistoryEntry, 'id' | 'timestamp' | 'url' | 'success'> => ({
+  type: event.kind,
+  originalName: event.name,
+  size: event.size,
+  serverUrl: buildServerUrl(event.profile),
+  profileName: event.profile.name,
+  expiry: event.options.expiry || null,
+  oneshot: !!event.options.oneshot,
+  imageReport: event.imageReport,
+  archiveContents: event.options.archiveContents,
+});
+
+// History is best-effort: the client logs observer failures instead of failing the upload
+export const historyObserver: UploadObserver = {
+  onUploadSuccess: async (event) => {
+    await addHistoryEntry({ ...toHistoryEntry(event), url: event.url.trim(), success: true });
+  },
+  onUploadError: async (event) => {
+    // Only the attempt the queue gives up on is worth an entry
+    if (event.willRetry) {
+      return;
+    }
+    await addHistoryEntry({
+      ...toHistoryEntry(event),
+      url: null,
+      success: false,
+      errorMessage: event.error.message,
+    });
+  },
+};
@@ -0,0 +1,155 @@
+/**
+ * Optional downscaling and recompression of images before upload, so that
+ * full-resolution camera originals don't eat mobile data and server quota.
+ * Re-encoding also drops all metadata along the way.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+import { splitExtension } from './filename';
+import { formatBytes } from './progress';
+
+export type ImageOutputFormat = 'jpeg' | 'webp' | 'png';
+
+export interface ImageProcessingSettings {
+  enabled: boolean;
+  /** Longest side in pixels; 0 keeps the original dimensions. */
+  maxDimension: number;
+  format: ImageOutputFormat;
+  /** 1-100, ignored for PNG. */
+  quality: number;
+}
+
+export interface ImageProcessingReport {
+  width: number;
+  height: number;
+  resized: boolean;
+  originalSize: number;
+  estimatedSize: number;
+  actualSize: number;
+}
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingSettings = {
+  enabled: false,
+  maxDimension: 2048,
+  format: 'jpeg',
+  quality: 80,
+};
+
+export const IMAGE_OUTPUT_FORMATS: { value: ImageOutputFormat; label: string; extension: string }[] = [
+  { value: 'jpeg', label: 'JPEG', extension: '.jpg' },
+  { value: 'webp', label: 'WebP', extension: '.webp' },
+  { value: 'png', label: 'PNG', extension: '.png' },
+];
+
+// Animated GIFs would lose their animation, so they are left alone
+const PROCESSABLE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.heic', '.heif'];
+
+const PROCESSED_DIRECTORY = `${FileSystem.cacheDirectory}processed/`;
+
+const SAVE_FORMATS: Record<ImageOutputFormat, SaveFormat> = {
+  jpeg: SaveFormat.JPEG,
+  webp: SaveFormat.WEBP,
+  png: SaveFormat.PNG,
+};
+
+const outputExtension = (format: ImageOutputFormat) =>
+  IMAGE_OUTPUT_FORMATS.find(option => option.value === format)!.extension;
+
+export function isProcessableImage(name: string): boolean {
+  return PROCESSABLE_EXTENSIONS.includes(splitExtension(name).extension.toLowerCase());
+}
+
+export function isValidImageProcessing(settings: ImageProcessingSettings): boolean {
+  return Number.isInteger(settings.maxDimension) && settings.maxDimension >= 0
+    && Number.isInteger(settings.quality) && settings.quality >= 1 && settings.quality <= 100;
+}
+
+/** The name an image is uploaded under once converted; other names are returned unchanged. */
+export function processedFileName(name: string, settings: ImageProcessingSettings): string {
+  if (!settings.enabled || !isProcessableImage(name)) {
+    return name;
+  }
+  return `${splitExtension(name).base}${outputExtension(settings.format)}`;
+}
+
+/** Scales down so the longest side fits, keeping the aspect ratio. */
+export function fitDimensions(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (maxDimension <= 0 || longest <= maxDimension) {
+    return { width, height };
+  }
+  const scale = maxDimension / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Rough output size from typical bytes per pixel for photos. Good enough to
+ * preview the saving and to compare against the actual result when tuning.
+ */
+export function estimateProcessedSize(width: number, height: number, settings: ImageProcessingSettings): number {
+  const target = fitDimensions(width, height, settings.maxDimension);
+  const pixels = target.width * target.height;
+  if (settings.format === 'png') {
+    return Math.round(pixels * 2);
+  }
+  const bytesPerPixel = 0.05 + 0.95 * (settings.quality / 100) ** 4;
+  return Math.round(pixels * bytesPerPixel * (settings.format === 'webp' ? 0.7 : 1));
+}
+
+/** "Resized to 2048×1536 · 4.2 MB → 812.0 KB (estimated 900.0 KB)" */
+export function describeImageReport(report: ImageProcessingReport): string {
+  const prefix = report.resized ? `Resized to ${report.width}×${report.height}` : 'Recompressed';
+  return `${prefix} · ${formatBytes(report.originalSize)} → ${formatBytes(report.actualSize)} (estimated ${formatBytes(report.estimatedSize)})`;
+}
+
+const getSize = async (uri: string) => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+};
+
+/**
+ * Writes a resized and recompressed copy of an image, named like the
+ * original with the new format's extension. Resolves to null when the copy
+ * would not be any smaller, leaving the caller to upload the original.
+ */
+export async function processImage(
+  uri: string,
+  settings: ImageProcessingSettings,
+): Promise<{ uri: string; report: ImageProcessingReport } | null> {
+  const originalSize = await getSize(uri);
+  const context = ImageManipulator.manipulate(uri);
+  try {
+    const original = await context.renderAsync();
+    const target = fitDimensions(original.width, original.height, settings.maxDimension);
+    const resized = target.width !== original.width;
+    const image = resized ? await context.resize(target).renderAsync() : original;
+    const saved = await image.saveAsync({ compress: settings.quality / 100, format: SAVE_FORMATS[settings.format] });
+
+    const report: ImageProcessingReport = {
+      ...target,
+      resized,
+      originalSize,
+      estimatedSize: estimateProcessedSize(original.width, original.height, settings),
+      actualSize: await getSize(saved.uri),
+    };
+    if (!resized && report.actualSize >= originalSize) {
+      await FileSystem.deleteAsync(saved.uri, { idempotent: true });
+      return null;
+    }
+
+    const directory = `${PROCESSED_DIRECTORY}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const processedUri = `${directory}${processedFileName(uri.split('/').pop() || 'image.jpg', settings)}`;
+    await FileSystem.moveAsync({ from: saved.uri, to: processedUri });
+    return { uri: processedUri, report };
+  } finally {
+    context.release();
+  }
+}
+
+/** Deletes a copy made by processImage. */
+export async function discardProcessedImage(uri: string): Promise<void> {
+  await FileSystem.deleteAsync(uri.slice(0, uri.lastIndexOf('/') + 1), { idempotent: true });
+}
@@ -0,0 +1,290 @@
+/**
+ * Removes EXIF, XMP and similar metadata from JPEG, PNG and WebP images
+ * without re-encoding them: metadata lives in its own segments or chunks,
+ * which are dropped while the pixel data is copied as is.
+ *
+ * A JPEG's EXIF orientation is the one tag worth keeping, as phones store
+ * rotated photos that way. It is written back as a minimal EXIF block.
+ */
+
+import * as FileSystem from 'expo-file-system';
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './binary';
+
+export interface StrippedImage {
+  data: Uint8Array;
+  /** What was removed, for display, e.g. "GPS location". */
+  removed: string[];
+}
+
+const STRIPPED_DIRECTORY = `${FileSystem.cacheDirectory}stripped/`;
+
+// Stripping reads the whole file into memory, more than once over as base64.
+// Reading just the head is not enough: PNG and WebP may keep metadata at the end.
+export const MAX_STRIP_BYTES = 32 * 1024 * 1024;
+
+/** Thrown for an image too large to strip, which must not go out with its metadata. */
+export class MetadataTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataTooLargeError';
+  }
+}
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const startsWith = (data: Uint8Array, prefix: Uint8Array, offset = 0) =>
+  data.length >= offset + prefix.length && prefix.every((byte, index) => data[offset + index] === byte);
+
+const readAscii = (data: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...data.subarray(start, Math.min(end, data.length)));
+
+const JPEG_START = new Uint8Array([0xff, 0xd8]);
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const EXIF_HEADER = ascii('Exif\0\0');
+const XMP_HEADERS = [ascii('http://ns.adobe.com/xap/1.0/\0'), ascii('http://ns.adobe.com/xmp/extension/\0')];
+const PHOTOSHOP_HEADER = ascii('Photoshop 3.0\0');
+const PNG_XMP_KEYWORD = ascii('XML:com.adobe.xmp\0');
+
+// Tags that say something about the person, place or device behind a photo
+const EXIF_TAG_LABELS: Record<number, string> = {
+  0x010f: 'camera make and model',
+  0x0110: 'camera make and model',
+  0xa434: 'camera make and model',
+  0x0132: 'date taken',
+  0x9003: 'date taken',
+  0x9004: 'date taken',
+  0x0131: 'editing software',
+  0x013b: 'author and copyright',
+  0x8298: 'author and copyright',
+  0xa431: 'camera serial numbers',
+  0xa435: 'camera serial numbers',
+  0x927c: 'maker notes',
+  0x8825: 'GPS location',
+};
+const EXIF_SUB_IFD = 0x8769;
+const ORIENTATION = 0x0112;
+
+interface ExifSummary {
+  labels: Set<string>;
+  orientation: number | null;
+}
+
+/** Lists what a TIFF structure (the body of an EXIF block) contains. */
+function summarizeTiff(tiff: Uint8Array): ExifSummary {
+  const summary: ExifSummary = { labels: new Set(), orientation: null };
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+
+  try {
+    const littleEndian = tiff[0] === 0x49;
+    const visited = new Set<number>();
+    const readIfd = (offset: number) => {
+      if (visited.has(offset) || offset + 2 > tiff.length) return;
+      visited.add(offset);
+      const count = view.getUint16(offset, littleEndian);
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > tiff.length) return;
+        const tag = view.getUint16(entry, littleEndian);
+        if (EXIF_TAG_LABELS[tag]) summary.labels.add(EXIF_TAG_LABELS[tag]);
+        if (tag === ORIENTATION) summary.orientation = view.getUint16(entry + 8, littleEndian);
+        if (tag === EXIF_SUB_IFD) readIfd(view.getUint32(entry + 8, littleEndian));
+      }
+    };
+    readIfd(view.getUint32(4, littleEndian));
+  } catch {
+    // Malformed EXIF is removed all the same, just without details
+  }
+
+  if (summary.labels.size === 0) {
+    summary.labels.add('EXIF data');
+  }
+  return summary;
+}
+
+/** An APP1 segment holding nothing but the orientation tag. */
+function orientationSegment(orientation: number): Uint8Array {
+  const tiff = new Uint8Array([
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian header, IFD0 at 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, orientation >> 8, orientation & 0xff, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  return concatBytes(new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), EXIF_HEADER, tiff);
+}
+
+function stripJpeg(data: Uint8Array): StrippedImage {
+  const kept: Uint8Array[] = [JPEG_START];
+  const removed = new Set<string>();
+  let orientation: number | null = null;
+  let offset = 2;
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of scan: the compressed image follows, copy everything from here
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+    const payloadStart = offset + 4;
+
+    if (marker === 0xe1 && startsWith(data, EXIF_HEADER, payloadStart)) {
+      const summary = summarizeTiff(data.subarray(payloadStart + EXIF_HEADER.length, end));
+      summary.labels.forEach(label => removed.add(label));
+      orientation = summary.orientation;
+    } else if (marker === 0xe1 && XMP_HEADERS.some(header => startsWith(data, header, payloadStart))) {
+      removed.add('XMP metadata');
+    } else if (marker === 0xed && startsWith(data, PHOTOSHOP_HEADER, payloadStart)) {
+      removed.add('IPTC metadata');
+    } else if (marker === 0xfe) {
+      removed.add('comments');
+    } else {
+      kept.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (orientation !== null && orientation !== 1) {
+    // Right after SOI and any JFIF header, where EXIF is expected
+    const insertAt = kept.length > 1 && kept[1][1] === 0xe0 ? 2 : 1;
+    kept.splice(insertAt, 0, orientationSegment(orientation));
+  }
+  kept.push(data.subarray(offset));
+  return { data: concatBytes(...kept), removed: [...removed] };
+}
+
+function stripPng(data: Uint8Array): StrippedImage {
+  const kept: Uint8Array[] = [PNG_SIGNATURE];
+  const removed = new Set<string>();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(data, offset + 4, offset + 8);
+    const end = offset + 12 + length;
+
+    if (type === 'eXIf') {
+      summarizeTiff(data.subarray(offset + 8, end - 4)).labels.forEach(label => removed.add(label));
+    } else if (type === 'iTXt' && startsWith(data, PNG_XMP_KEYWORD, offset + 8)) {
+      removed.add('XMP metadata');
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      removed.add('text comments');
+    } else if (type === 'tIME') {
+      removed.add('date modified');
+    } else {
+      kept.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(data.subarray(offset));
+  return { data: concatBytes(...kept), removed: [...removed] };
+}
+
+function stripWebp(data: Uint8Array): StrippedImage {
+  const kept: Uint8Array[] = [data.slice(0, 12)];
+  const removed = new Set<string>();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const type = readAscii(data, offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even size
+    const end = Math.min(offset + 8 + size + (size % 2), data.length);
+
+    if (type === 'EXIF') {
+      const payload = data.subarray(offset + 8, offset + 8 + size);
+      const tiff = startsWith(payload, EXIF_HEADER) ? payload.subarray(EXIF_HEADER.length) : payload;
+      summarizeTiff(tiff).labels.forEach(label => removed.add(label));
+    } else if (type === 'XMP ') {
+      removed.add('XMP metadata');
+    } else if (type === 'VP8X') {
+      // Clear the "has EXIF" and "has XMP" flags
+      const chunk = data.slice(offset, end);
+      chunk[8] &= ~0x0c;
+      kept.push(chunk);
+    } else {
+      kept.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const result = concatBytes(...kept);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return { data: result, removed: [...removed] };
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+function detectFormat(header: Uint8Array): ImageFormat | null {
+  if (startsWith(header, JPEG_START)) return 'jpeg';
+  if (startsWith(header, PNG_SIGNATURE)) return 'png';
+  if (readAscii(header, 0, 4) === 'RIFF' && readAscii(header, 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+const STRIPPERS: Record<ImageFormat, (data: Uint8Array) => StrippedImage> = {
+  jpeg: stripJpeg,
+  png: stripPng,
+  webp: stripWebp,
+};
+
+/** Null when the data is not a supported image or has no metadata to remove. */
+export function stripImageMetadata(data: Uint8Array): StrippedImage | null {
+  const format = detectFormat(data);
+  if (!format) {
+    return null;
+  }
+  const result = STRIPPERS[format](data);
+  return result.removed.length > 0 ? result : null;
+}
+
+/**
+ * Writes a metadata-free copy of an image file, keeping its file name.
+ * Resolves to null, leaving the caller to upload the original, for other
+ * files and for images that are clean already. Throws MetadataTooLargeError
+ * for images over MAX_STRIP_BYTES.
+ */
+export async function stripFileMetadata(uri: string): Promise<{ uri: string; removed: string[] } | null> {
+  let header: Uint8Array;
+  try {
+    header = base64ToBytes(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64, position: 0, length: 12 }));
+  } catch {
+    return null;
+  }
+  if (!detectFormat(header)) {
+    return null;
+  }
+  const info = await FileSystem.getInfoAsync(uri);
+  if (info.exists && info.size > MAX_STRIP_BYTES) {
+    throw new MetadataTooLargeError(
+      `Images over ${MAX_STRIP_BYTES / (1024 * 1024)} MB are too large to remove metadata from. Turn off metadata stripping to upload this one.`
+    );
+  }
+
+  const contents = base64ToBytes(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+  const stripped = stripImageMetadata(contents);
+  if (!stripped) {
+    return null;
+  }
+
+  const directory = `${STRIPPED_DIRECTORY}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const strippedUri = `${directory}${uri.split('/').pop() || 'image'}`;
+  await FileSystem.writeAsStringAsync(strippedUri, bytesToBase64(stripped.data), { encoding: FileSystem.EncodingType.Base64 });
+  return { uri: strippedUri, removed: stripped.removed };
+}
+
+/** Deletes a copy made by stripFileMetadata. */
+export async function discardStrippedFile(uri: string): Promise<void> {
+  await FileSystem.deleteAsync(uri.slice(0, uri.lastIndexOf('/') + 1), { idempotent: true });
+}
+
+/** "GPS location, camera make and model and 2 more" style summary. */
+export function describeRemovedMetadata(removed: string[]): string {
+  if (removed.length <= 3) {
+    return removed.join(', ');
+  }
+  return `${removed.slice(0, 2).join(', ')} and ${removed.length - 2} more`;
+}
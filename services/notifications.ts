@@ -3,13 +3,22 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { Platform, Alert } from 'react-native';
 import * as IntentLauncher from 'expo-intent-launcher';
+import { router } from 'expo-router';
+
+import type { UploadKind, UploadObserver } from './api';
+import { describeBatch, type BatchItem } from './batch';
+import { describeImageReport, type ImageProcessingReport } from './imageProcessing';
+import { describeRemovedMetadata } from './metadata';
+import { fileNameFromUrl } from './paste';
+import { describeProgress } from './progress';
 
 
 // Configure notifications
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
+  handleNotification: async (notification) => ({
     shouldShowAlert: true,
-    shouldPlaySound: true,
+    // Progress updates arrive every second or so and must stay silent
+    shouldPlaySound: notification.request.content.data?.type !== 'progress',
     shouldSetBadge: false,
   }),
 });
@@ -18,8 +27,41 @@ Notifications.setNotificationHandler({
 const NOTIFICATION_CATEGORIES = {
   SUCCESS: 'UPLOAD_SUCCESS',
   ERROR: 'UPLOAD_ERROR',
+  // Errors of uploads the queue kept a copy of
+  RETRYABLE_ERROR: 'UPLOAD_ERROR_RETRYABLE',
+  PROGRESS: 'UPLOAD_PROGRESS',
 } as const;
 
+// Running uploads keyed by their progress notification identifier
+const cancelHandlers = new Map<string, () => void>();
+
+/**
+ * Lets the Cancel action of a progress notification abort the upload behind
+ * it. Returns a function that unregisters the handler.
+ */
+export function registerCancelHandler(identifier: string, onCancel: () => void): () => void {
+  cancelHandlers.set(identifier, onCancel);
+  return () => {
+    cancelHandlers.delete(identifier);
+  };
+}
+
+// Set while the upload queue is loaded; resolves to false for unknown ids
+let retryHandler: ((id: string) => Promise<boolean>) | null = null;
+
+/**
+ * Lets the Retry action of an error notification re-run the queued copy of
+ * the failed upload. Returns a function that unregisters the handler.
+ */
+export function registerRetryHandler(onRetry: (id: string) => Promise<boolean>): () => void {
+  retryHandler = onRetry;
+  return () => {
+    if (retryHandler === onRetry) {
+      retryHandler = null;
+    }
+  };
+}
+
 export async function requestNotificationsPermission(): Promise<boolean> {
   try {
     // Set up notification channels for Android
@@ -39,10 +81,26 @@ export async function requestNotificationsPermission(): Promise<boolean> {
         lightColor: '#FF4444',
         description: 'Notifications for upload errors',
       });
+
+      await Notifications.setNotificationChannelAsync('droidypaste-progress', {
+        name: 'Upload Progress',
+        importance: Notifications.AndroidImportance.LOW,
+        vibrationPattern: null,
+        enableVibrate: false,
+        sound: null,
+        description: 'Ongoing progress of running uploads',
+      });
     }
 
     // Set up notification categories for interactive notifications
     await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.SUCCESS, [
+      {
+        identifier: 'view_paste',
+        buttonTitle: 'View',
+        options: {
+          opensAppToForeground: true,
+        },
+      },
       {
         identifier: 'copy_url',
         buttonTitle: 'Copy URL',
@@ -60,13 +118,6 @@ export async function requestNotificationsPermission(): Promise<boolean> {
     ]);
 
     await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.ERROR, [
-      // {
-      //   identifier: 'retry_upload',
-      //   buttonTitle: 'Retry',
-      //   options: {
-      //     opensAppToForeground: true,
-      //   },
-      // },
       {
         identifier: 'view_details',
         buttonTitle: 'Details',
@@ -76,6 +127,33 @@ export async function requestNotificationsPermission(): Promise<boolean> {
       },
     ]);
 
+    await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.RETRYABLE_ERROR, [
+      {
+        identifier: 'retry_upload',
+        buttonTitle: 'Retry',
+        options: {
+          opensAppToForeground: true,
+        },
+      },
+      {
+        identifier: 'view_details',
+        buttonTitle: 'Details',
+        options: {
+          opensAppToForeground: true,
+        },
+      },
+    ]);
+
+    await Notifications.setNotificationCategoryAsync(NOTIFICATION_CATEGORIES.PROGRESS, [
+      {
+        identifier: 'cancel_upload',
+        buttonTitle: 'Cancel',
+        options: {
+          opensAppToForeground: false,
+        },
+      },
+    ]);
+
     const { status } = await Notifications.requestPermissionsAsync();
     return status === 'granted';
   } catch (error) {
@@ -85,10 +163,13 @@ export async function requestNotificationsPermission(): Promise<boolean> {
 }
 
 interface NotificationData {
-  type: 'success' | 'error';
+  type: 'success' | 'error' | 'progress' | 'batch';
   url?: string;
   errorMessage?: string;
   uploadType?: string;
+  oneshot?: boolean;
+  /** Queue item the Retry action re-runs. */
+  retryId?: string;
   timestamp: number;
 }
 
@@ -96,20 +177,28 @@ interface SuccessNotificationOptions {
   title: string;
   url: string;
   uploadType: string;
+  oneshot?: boolean;
   autoClipboard?: boolean;
+  /** Metadata removed from an image, listed in the body. */
+  strippedMetadata?: string[];
+  imageReport?: ImageProcessingReport;
 }
 
 interface ErrorNotificationOptions {
   title: string;
   errorMessage: string;
   uploadType: string;
+  retryId?: string;
 }
 
 export async function showSuccessNotification({
   title,
   url,
   uploadType,
+  oneshot = false,
   autoClipboard = true,
+  strippedMetadata = [],
+  imageReport,
 }: SuccessNotificationOptions): Promise<void> {
   try {
     // Auto-copy to clipboard if enabled
@@ -123,15 +212,18 @@ export async function showSuccessNotification({
       type: 'success',
       url,
       uploadType,
+      oneshot,
       timestamp: Date.now(),
     };
 
     await Notifications.scheduleNotificationAsync({
       content: {
         title,
-        body: autoClipboard 
+        body: (autoClipboard
           ? `URL copied to clipboard! Tap to view options.`
-          : `Upload completed! Tap to copy URL.`,
+          : `Upload completed! Tap to copy URL.`)
+          + (imageReport ? `\n${describeImageReport(imageReport)}` : '')
+          + (strippedMetadata.length > 0 ? `\nRemoved ${describeRemovedMetadata(strippedMetadata)}.` : ''),
         data: notificationData,
         sound: true,
         categoryIdentifier: NOTIFICATION_CATEGORIES.SUCCESS,
@@ -149,6 +241,7 @@ export async function showErrorNotification({
   title,
   errorMessage,
   uploadType,
+  retryId,
 }: ErrorNotificationOptions): Promise<void> {
   try {
     // Provide haptic feedback for error
@@ -158,6 +251,7 @@ export async function showErrorNotification({
       type: 'error',
       errorMessage,
       uploadType,
+      retryId,
       timestamp: Date.now(),
     };
 
@@ -167,7 +261,7 @@ export async function showErrorNotification({
         body: `Error: ${errorMessage.length > 50 ? errorMessage.substring(0, 50) + '...' : errorMessage}`,
         data: notificationData,
         sound: true,
-        categoryIdentifier: NOTIFICATION_CATEGORIES.ERROR,
+        categoryIdentifier: retryId ? NOTIFICATION_CATEGORIES.RETRYABLE_ERROR : NOTIFICATION_CATEGORIES.ERROR,
       },
       trigger: null,
     });
@@ -178,25 +272,176 @@ export async function showErrorNotification({
   }
 }
 
+interface ProgressNotificationOptions {
+  identifier: string;
+  title: string;
+  body: string;
+  uploadType: string;
+}
+
+/**
+ * Shows or replaces an ongoing progress notification. Reusing the same
+ * identifier updates the existing notification instead of stacking new ones.
+ */
+export async function showProgressNotification({
+  identifier,
+  title,
+  body,
+  uploadType,
+}: ProgressNotificationOptions): Promise<void> {
+  try {
+    const notificationData: NotificationData = {
+      type: 'progress',
+      uploadType,
+      timestamp: Date.now(),
+    };
+
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title,
+        body,
+        data: notificationData,
+        sound: false,
+        sticky: true,
+        autoDismiss: false,
+        priority: Notifications.AndroidNotificationPriority.LOW,
+        categoryIdentifier: NOTIFICATION_CATEGORIES.PROGRESS,
+      },
+      trigger: Platform.OS === 'android' ? { channelId: 'droidypaste-progress' } : null,
+    });
+  } catch (error) {
+    console.error('Failed to show progress notification:', error);
+  }
+}
+
+export async function dismissProgressNotification(identifier: string): Promise<void> {
+  try {
+    await Notifications.dismissNotificationAsync(identifier);
+  } catch (error) {
+    console.error('Failed to dismiss progress notification:', error);
+  }
+}
+
+/**
+ * One notification for a whole batch instead of one per file, with every
+ * link copied at once so none overwrites another.
+ */
+export async function notifyBatchComplete(items: BatchItem[], urlList: string): Promise<void> {
+  try {
+    const uploaded = items.filter(item => item.status === 'done').length;
+    if (urlList) {
+      await Clipboard.setStringAsync(urlList);
+    }
+    await Haptics.notificationAsync(
+      uploaded === items.length ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+    );
+
+    const notificationData: NotificationData = {
+      type: 'batch',
+      timestamp: Date.now(),
+    };
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: uploaded === items.length
+          ? `${items.length} Files Uploaded`
+          : `${uploaded} of ${items.length} Files Uploaded`,
+        body: `${describeBatch(items)}\n`
+          + (uploaded > 0 ? `${uploaded === 1 ? 'URL' : 'All URLs'} copied to clipboard. ` : '')
+          + 'Tap to see the results.',
+        data: notificationData,
+        sound: true,
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Failed to show batch notification:', error);
+  }
+}
+
 // Convenient wrapper functions
-export async function notifyUploadSuccess(uploadType: string, url: string): Promise<void> {
+export async function notifyUploadSuccess(
+  uploadType: string,
+  url: string,
+  oneshot = false,
+  strippedMetadata?: string[],
+  imageReport?: ImageProcessingReport,
+): Promise<void> {
   const title = `${uploadType.charAt(0).toUpperCase() + uploadType.slice(1)} Upload Complete`;
   await showSuccessNotification({
     title,
     url,
     uploadType,
+    oneshot,
+    strippedMetadata,
+    imageReport,
   });
 }
 
-export async function notifyUploadError(uploadType: string, errorMessage: string): Promise<void> {
+export async function notifyUploadError(uploadType: string, errorMessage: string, retryId?: string): Promise<void> {
   const title = `${uploadType.charAt(0).toUpperCase() + uploadType.slice(1)} Upload Failed`;
   await showErrorNotification({
     title,
     errorMessage,
     uploadType,
+    retryId,
   });
 }
 
+// Shortened URLs have always been announced as "URL Upload Complete"
+const UPLOAD_TYPE_LABELS: Record<UploadKind, string> = {
+  text: 'text',
+  file: 'file',
+  url: 'URL',
+  remote: 'remote',
+};
+
+const PROGRESS_NOTIFICATION_INTERVAL_MS = 1000;
+
+// Per running upload: when its progress was last shown, and the call showing
+// it, which later updates and the final dismiss are chained onto
+const progressNotifications = new Map<string, { notifiedAt: number; shown: Promise<void> }>();
+
+/**
+ * Announces upload results, and shows a cancellable progress notification
+ * for uploads that report progress.
+ */
+export const notificationObserver: UploadObserver = {
+  onUploadProgress: ({ id, kind, name, progress, cancel }) => {
+    const previous = progressNotifications.get(id);
+    const now = Date.now();
+    if (previous && now - previous.notifiedAt < PROGRESS_NOTIFICATION_INTERVAL_MS) {
+      return;
+    }
+    if (!previous) {
+      registerCancelHandler(id, cancel);
+    }
+    const shown = (previous?.shown ?? Promise.resolve()).then(() =>
+      showProgressNotification({
+        identifier: id,
+        title: `Uploading ${name}`,
+        body: describeProgress(progress),
+        uploadType: UPLOAD_TYPE_LABELS[kind],
+      })
+    );
+    progressNotifications.set(id, { notifiedAt: now, shown });
+  },
+  onUploadSuccess: ({ kind, url, options, strippedMetadata, imageReport, silent }) =>
+    silent ? undefined : notifyUploadSuccess(UPLOAD_TYPE_LABELS[kind], url, !!options.oneshot, strippedMetadata, imageReport),
+  onUploadError: ({ kind, error, silent, retryId, willRetry }) =>
+    silent || willRetry ? undefined : notifyUploadError(UPLOAD_TYPE_LABELS[kind], error.message, retryId),
+  onUploadSettled: ({ id }) => {
+    const progress = progressNotifications.get(id);
+    if (progress) {
+      progressNotifications.delete(id);
+      cancelHandlers.delete(id);
+      // An update still being shown would otherwise bring the notification back
+      progress.shown.then(() => dismissProgressNotification(id));
+    }
+  },
+};
+
 // Handle notification interactions
 export function setupNotificationResponseHandler(): void {
   Notifications.addNotificationResponseReceivedListener(async (response) => {
@@ -213,6 +458,20 @@ export function setupNotificationResponseHandler(): void {
           }
           break;
 
+        case 'view_paste':
+          if (data.url) {
+            // Shortened URLs redirect elsewhere, so they can only be opened externally
+            if (data.uploadType === UPLOAD_TYPE_LABELS.url) {
+              IntentLauncher.startActivityAsync('android.intent.action.VIEW', { data: data.url });
+            } else {
+              router.push({
+                pathname: '/paste/[file]',
+                params: { file: fileNameFromUrl(data.url), url: data.url, oneshot: data.oneshot ? '1' : undefined },
+              });
+            }
+          }
+          break;
+
         case 'open_url':
           if (data.url) {
             console.log('Opening URL:', data.url);
@@ -220,10 +479,20 @@ export function setupNotificationResponseHandler(): void {
           }
           break;
 
-        case 'retry_upload':
-          console.log('Retry upload requested for:', data.uploadType);
-          // TODO: Navigate to upload screen or trigger retry logic
+        case 'cancel_upload':
+          cancelHandlers.get(notification.request.identifier)?.();
+          await Notifications.dismissNotificationAsync(notification.request.identifier);
+          break;
+
+        case 'retry_upload': {
+          await Notifications.dismissNotificationAsync(notification.request.identifier);
+          const retried = !!data.retryId && !!retryHandler && await retryHandler(data.retryId);
+          if (!retried) {
+            // Already retried or cancelled; the Upload screen lists whatever is still queued
+            router.push('/upload');
+          }
           break;
+        }
 
         case 'view_details':
           if (data.errorMessage) {
@@ -240,7 +509,9 @@ export function setupNotificationResponseHandler(): void {
 
         default:
           // Handle default tap (when notification body is tapped)
-          if (data.type === 'success' && data.url) {
+          if (data.type === 'batch') {
+            router.push('/batch');
+          } else if (data.type === 'success' && data.url) {
             await Clipboard.setStringAsync(data.url);
             await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
             Alert.alert(
@@ -0,0 +1,122 @@
+/**
+ * Loading uploaded files back for the in-app viewer. Files are served
+ * publicly by rustypaste, so no auth headers are involved.
+ */
+
+import * as FileSystem from 'expo-file-system';
+
+import { ApiError } from './api';
+import { bytesToBase64 } from './binary';
+import { stripFragment, type OpenedPaste } from './encryption';
+
+export type PreviewKind = 'text' | 'image' | 'video' | 'other';
+
+/** Larger text files are offered for opening externally instead. */
+export const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+const DECRYPTED_DIRECTORY = `${FileSystem.cacheDirectory}decrypted/`;
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'heic', 'avif'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'm4v', 'mkv', '3gp'];
+const BINARY_EXTENSIONS = ['zip', 'gz', 'tgz', 'tar', '7z', 'rar', 'pdf', 'apk', 'exe', 'bin', 'iso', 'mp3', 'ogg', 'flac', 'wav', 'doc', 'docx', 'xls', 'xlsx'];
+
+const TEXT_CONTENT_TYPES = /^(text\/|application\/(json|xml|javascript|x-sh|toml|yaml|x-yaml))/;
+
+/** Guesses from the name alone; null when only the content type can tell. */
+export function previewKindFromName(fileName: string): PreviewKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  if (BINARY_EXTENSIONS.includes(extension)) return 'other';
+  return null;
+}
+
+export function previewKindFromContentType(contentType: string | null): PreviewKind {
+  if (!contentType) return 'text';
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType.startsWith('video/')) return 'video';
+  return TEXT_CONTENT_TYPES.test(contentType) ? 'text' : 'other';
+}
+
+export function fileNameFromUrl(url: string): string {
+  const segment = url.trim().split(/[?#]/)[0].split('/').filter(Boolean).pop() ?? '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export interface FetchedPaste {
+  kind: PreviewKind;
+  contentType: string | null;
+  size: number | null;
+  /** Only loaded for text that fits the preview limit. */
+  text: string | null;
+}
+
+async function request(url: string, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    // The fragment may hold a decryption key and must stay on the device
+    response = await fetch(stripFragment(url), { signal });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new ApiError('Unable to connect to server. Please check your internet connection.');
+  }
+
+  if (!response.ok) {
+    throw new ApiError(
+      response.status === 404 ? 'This paste does not exist or has expired' : `Could not load paste: ${response.statusText || response.status}`,
+      response.status,
+    );
+  }
+  return response;
+}
+
+export async function fetchPaste(url: string, signal?: AbortSignal): Promise<FetchedPaste> {
+  const response = await request(url, signal);
+  const contentType = response.headers.get('content-type');
+  const length = response.headers.get('content-length');
+  const size = length ? Number(length) : null;
+  const kind = previewKindFromContentType(contentType);
+
+  if (kind !== 'text' || (size !== null && size > MAX_TEXT_PREVIEW_BYTES)) {
+    return { kind, contentType, size, text: null };
+  }
+
+  const text = await response.text();
+  return { kind, contentType, size: size ?? new TextEncoder().encode(text).length, text };
+}
+
+/** The raw bytes of a paste, for decrypting it. */
+export async function fetchPasteBytes(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  const response = await request(url, signal);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export interface DecryptedPaste extends FetchedPaste {
+  /** The name chosen at upload, which the server never saw. */
+  name: string;
+  /** Where the plaintext was written, for media views and opening externally. */
+  localUri: string;
+}
+
+/** Writes decrypted content to the cache so it can be shown like any other paste. */
+export async function saveDecryptedPaste({ name, content }: OpenedPaste): Promise<DecryptedPaste> {
+  await FileSystem.makeDirectoryAsync(DECRYPTED_DIRECTORY, { intermediates: true });
+  const localUri = `${DECRYPTED_DIRECTORY}${encodeURIComponent(name.replace(/[/\\]/g, '_'))}`;
+  await FileSystem.writeAsStringAsync(localUri, bytesToBase64(content), { encoding: FileSystem.EncodingType.Base64 });
+
+  const kind = previewKindFromName(name) ?? 'text';
+  const text = kind === 'text' && content.length <= MAX_TEXT_PREVIEW_BYTES
+    ? await FileSystem.readAsStringAsync(localUri)
+    : null;
+  return { kind, contentType: null, size: content.length, text, name, localUri };
+}
+
+export async function clearDecryptedPastes(): Promise<void> {
+  await FileSystem.deleteAsync(DECRYPTED_DIRECTORY, { idempotent: true });
+}
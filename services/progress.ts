@@ -0,0 +1,74 @@
+/**
+ * Byte-level upload progress, derived from raw XHR progress events.
+ */
+
+export interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  /** 0-100, or null when the total size is unknown. */
+  percent: number | null;
+  bytesPerSecond: number;
+  /** Estimated seconds remaining, or null until there is enough data. */
+  etaSeconds: number | null;
+}
+
+export type ProgressCallback = (progress: UploadProgress) => void;
+
+// Throughput is averaged over this window to keep the ETA from jumping around
+const THROUGHPUT_WINDOW_MS = 3000;
+
+export function createProgressTracker(onProgress: ProgressCallback) {
+  const samples: { time: number; bytes: number }[] = [];
+
+  return (bytesSent: number, totalBytes: number) => {
+    const now = Date.now();
+    samples.push({ time: now, bytes: bytesSent });
+    while (samples.length > 2 && now - samples[0].time > THROUGHPUT_WINDOW_MS) {
+      samples.shift();
+    }
+
+    const elapsedMs = now - samples[0].time;
+    const bytesPerSecond = elapsedMs > 0 ? ((bytesSent - samples[0].bytes) / elapsedMs) * 1000 : 0;
+    const hasTotal = totalBytes > 0;
+
+    onProgress({
+      bytesSent,
+      totalBytes,
+      percent: hasTotal ? Math.min(100, (bytesSent / totalBytes) * 100) : null,
+      bytesPerSecond,
+      etaSeconds: hasTotal && bytesPerSecond > 0 ? (totalBytes - bytesSent) / bytesPerSecond : null,
+    });
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+}
+
+export function formatEta(seconds: number): string {
+  const rounded = Math.ceil(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  if (rounded < 3600) return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+  return `${Math.floor(rounded / 3600)}h ${Math.floor((rounded % 3600) / 60)}m`;
+}
+
+/** One-line summary such as "42% · 12.0 MB of 28.6 MB · 1.2 MB/s · 14s left". */
+export function describeProgress(progress: UploadProgress): string {
+  const parts: string[] = [];
+  if (progress.percent !== null) {
+    parts.push(`${Math.floor(progress.percent)}%`);
+    parts.push(`${formatBytes(progress.bytesSent)} of ${formatBytes(progress.totalBytes)}`);
+  } else {
+    parts.push(formatBytes(progress.bytesSent));
+  }
+  if (progress.bytesPerSecond > 0) {
+    parts.push(`${formatBytes(Math.round(progress.bytesPerSecond))}/s`);
+  }
+  if (progress.etaSeconds !== null) {
+    parts.push(`${formatEta(progress.etaSeconds)} left`);
+  }
+  return parts.join(' · ');
+}
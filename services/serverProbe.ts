@@ -0,0 +1,123 @@
+/**
+ * Connection test for a server profile. Rustypaste has no capability
+ * endpoint, so each feature is probed with a harmless request and the
+ * answer is read from the status code.
+ */
+
+import type { ServerCapabilities, ServerProfile } from '@/contexts/SettingsContext';
+import { ApiError, RustypasteClient, type RequestOptions } from './api';
+
+type Probe<T> = { ok: true; value: T } | { ok: false; error: ApiError };
+
+async function attempt<T>(request: () => Promise<T>): Promise<Probe<T>> {
+  try {
+    return { ok: true, value: await request() };
+  } catch (error) {
+    return { ok: false, error: error instanceof ApiError ? error : new ApiError(String(error)) };
+  }
+}
+
+const isAuthError = (error: ApiError) => error.statusCode === 401 || error.statusCode === 403;
+
+// Never exists on the server, so deleting it cannot remove anything
+const probeFileName = () => `droidypaste-probe-${Math.random().toString(36).slice(2, 10)}.txt`;
+
+/** Throws an ApiError when the server cannot be reached at all. */
+export async function probeServer(
+  profile: ServerProfile,
+  request: RequestOptions = {},
+): Promise<ServerCapabilities> {
+  const client = new RustypasteClient(profile);
+  const capabilities: ServerCapabilities = {
+    checkedAt: Date.now(),
+    version: null,
+    auth: 'unknown',
+    list: 'unknown',
+    delete: 'unknown',
+  };
+
+  const version = await attempt(() => client.getVersion(request));
+  if (!version.ok && version.error.statusCode === undefined) {
+    // No HTTP response at all: wrong address, server down or no network
+    throw version.error;
+  }
+  if (version.ok) {
+    capabilities.version = version.value;
+    capabilities.auth = 'ok';
+  } else if (isAuthError(version.error)) {
+    capabilities.auth = 'rejected';
+  }
+
+  // `/list` answers 404 when expose_list is off and needs the auth token otherwise
+  const list = await attempt(() => client.listUploads(request));
+  if (list.ok) {
+    capabilities.list = 'enabled';
+    capabilities.auth = 'ok';
+  } else if (list.error.statusCode === 404) {
+    capabilities.list = 'disabled';
+  } else if (isAuthError(list.error)) {
+    capabilities.auth = 'rejected';
+  }
+
+  // Deleting a missing file is rejected before the lookup when the token is
+  // wrong, and answers an empty 404 when no delete tokens are configured
+  const deletion = await attempt(() => client.deleteFile(probeFileName(), request));
+  if (deletion.ok) {
+    capabilities.delete = 'enabled';
+  } else if (isAuthError(deletion.error)) {
+    capabilities.delete = 'rejected';
+  } else if (deletion.error.statusCode === 404) {
+    capabilities.delete = deletion.error.responseText?.trim() ? 'enabled' : 'disabled';
+  }
+
+  return capabilities;
+}
+
+/** Only false once a connection test has shown the server does not expose `/list`. */
+export const canListUploads = (profile: Pick<ServerProfile, 'capabilities'>) =>
+  profile.capabilities?.list !== 'disabled';
+
+/** Needs a delete token that the last connection test, if any, did not find unusable. */
+export const canDeleteUploads = (profile: Pick<ServerProfile, 'deleteToken' | 'capabilities'>) =>
+  profile.deleteToken !== ''
+  && profile.capabilities?.delete !== 'disabled'
+  && profile.capabilities?.delete !== 'rejected';
+
+/** One line per check, for the report shown after a connection test. */
+export function describeCapabilities(capabilities: ServerCapabilities): { label: string; ok: boolean | null; detail: string }[] {
+  return [
+    {
+      label: 'Server',
+      ok: true,
+      detail: capabilities.version ?? 'Reachable, version not exposed',
+    },
+    {
+      label: 'Authentication',
+      ok: capabilities.auth === 'unknown' ? null : capabilities.auth === 'ok',
+      detail: {
+        ok: 'Accepted',
+        rejected: 'Auth token rejected by the server',
+        unknown: 'Could not be verified',
+      }[capabilities.auth],
+    },
+    {
+      label: 'Upload list',
+      ok: capabilities.list === 'unknown' ? null : capabilities.list === 'enabled',
+      detail: {
+        enabled: 'Available',
+        disabled: 'Disabled (expose_list is off)',
+        unknown: 'Could not be checked',
+      }[capabilities.list],
+    },
+    {
+      label: 'Delete token',
+      ok: capabilities.delete === 'unknown' ? null : capabilities.delete === 'enabled',
+      detail: {
+        enabled: 'Accepted',
+        rejected: 'Delete token rejected by the server',
+        disabled: 'Deleting is disabled (no delete_tokens)',
+        unknown: 'Could not be checked',
+      }[capabilities.delete],
+    },
+  ];
+}
@@ -0,0 +1,47 @@
+/**
+ * Builds request URLs from a profile's server address and scheme.
+ * The scheme is an explicit per-profile setting, so a scheme typed into the
+ * address is split off instead of silently overriding it.
+ */
+
+import type { ServerProfile, ServerScheme } from '@/contexts/SettingsContext';
+
+const SCHEME_PATTERN = /^(https?):\/\//i;
+
+/** Separates a scheme typed or pasted into the address field from the rest. */
+export function splitServerUrl(input: string): { scheme: ServerScheme | null; address: string } {
+  const trimmed = input.trim();
+  const match = trimmed.match(SCHEME_PATTERN);
+  return {
+    scheme: match ? (match[1].toLowerCase() as ServerScheme) : null,
+    address: trimmed.slice(match ? match[0].length : 0),
+  };
+}
+
+/**
+ * Returns the server's base URL joined with `path`. Servers mounted under a
+ * sub-path (e.g. `example.com/paste`) keep it, and `path` is appended after it.
+ */
+export function buildServerUrl(profile: Pick<ServerProfile, 'serverUrl' | 'scheme'>, path = ''): string {
+  const base = splitServerUrl(profile.serverUrl).address.replace(/\/+$/, '');
+  return `${profile.scheme}://${base}${path}`;
+}
+
+/** URL of an uploaded file, as served by rustypaste. */
+export function buildFileUrl(profile: Pick<ServerProfile, 'serverUrl' | 'scheme'>, fileName: string): string {
+  return buildServerUrl(profile, `/${encodeURIComponent(fileName)}`);
+}
+
+export function isValidServerUrl(profile: Pick<ServerProfile, 'serverUrl' | 'scheme'>): boolean {
+  try {
+    const url = new URL(buildServerUrl(profile));
+    return url.hostname.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/** True when tokens would be sent over plain HTTP, readable by anyone on the network. */
+export function sendsTokensInCleartext(profile: Pick<ServerProfile, 'scheme' | 'authToken' | 'deleteToken'>): boolean {
+  return profile.scheme === 'http' && !!(profile.authToken || profile.deleteToken);
+}
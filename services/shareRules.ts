@@ -0,0 +1,164 @@
+/**
+ * Rules deciding what happens to content shared from other apps, so that
+ * screenshots can go up instantly while text always gets a look first.
+ * The first enabled rule that matches wins; without one, the "review before
+ * uploading" setting decides.
+ */
+
+import { classifyClipboardText } from './clipboard';
+import { splitExtension } from './filename';
+import type { SharedContent } from './sharing';
+
+export type ShareRuleAction = 'upload' | 'review' | 'shorten' | 'reject';
+
+export interface ShareRuleMatch {
+  /** Comma separated MIME patterns such as "image/*, application/pdf". */
+  mimeTypes: string;
+  /** Comma separated extensions, with or without the dot. */
+  extensions: string;
+  /** Bounds in bytes; 0 leaves that side open. */
+  minSize: number;
+  maxSize: number;
+  /**
+   * Comma separated hosts of a shared link, e.g. "youtube.com"; subdomains
+   * match too. The share intent does not say which app sent the content,
+   * so the link is the only source there is to go by.
+   */
+  sources: string;
+}
+
+export interface ShareRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: ShareRuleMatch;
+  action: ShareRuleAction;
+  /** Server profile to upload to; the active one when unset or deleted. */
+  profileId?: string;
+  /** Overrides the profile's expiry when set; empty means never expire. */
+  expiry?: string;
+  oneshot?: boolean;
+}
+
+export const SHARE_RULE_ACTIONS: { value: ShareRuleAction; label: string }[] = [
+  { value: 'upload', label: 'Upload' },
+  { value: 'review', label: 'Ask' },
+  { value: 'shorten', label: 'Shorten' },
+  { value: 'reject', label: 'Reject' },
+];
+
+// What shared text and links count as when matching MIME types
+const TEXT_MIME_TYPE = 'text/plain';
+const URL_MIME_TYPE = 'text/uri-list';
+
+const splitList = (list: string) => list.split(/[\s,]+/).map(item => item.trim().toLowerCase()).filter(Boolean);
+
+export const createShareRule = (values: Partial<Omit<ShareRule, 'id'>> = {}): ShareRule => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  enabled: true,
+  match: { mimeTypes: '', extensions: '', minSize: 0, maxSize: 0, sources: '' },
+  action: 'upload',
+  ...values,
+});
+
+/** The link a share is about, if it is a single one. */
+export function sharedLink(content: SharedContent): string | null {
+  if (content.kind === 'url') {
+    return content.url;
+  }
+  if (content.kind === 'text') {
+    const classified = classifyClipboardText(content.text);
+    return classified?.kind === 'url' ? classified.url : null;
+  }
+  return null;
+}
+
+const linkHost = (link: string) => link.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^:/?#]+)/i)?.[1].toLowerCase() ?? null;
+
+const matchesMimeType = (mimeType: string | undefined, patterns: string[]) => {
+  if (!mimeType) {
+    return false;
+  }
+  const [type] = mimeType.toLowerCase().split(';');
+  return patterns.some(pattern =>
+    pattern === '*/*' || pattern === '*' || pattern === type || (pattern.endsWith('/*') && type.startsWith(pattern.slice(0, -1)))
+  );
+};
+
+interface ShareItem {
+  mimeType?: string;
+  name?: string;
+  size?: number;
+  link?: string | null;
+}
+
+function shareItems(content: SharedContent): ShareItem[] {
+  switch (content.kind) {
+    case 'files':
+      return content.files.map(file => ({ mimeType: file.mimeType, name: file.name, size: file.size }));
+    case 'text':
+      return [{ mimeType: TEXT_MIME_TYPE, size: new TextEncoder().encode(content.text).length, link: sharedLink(content) }];
+    case 'url':
+      return [{ mimeType: URL_MIME_TYPE, size: content.url.length, link: content.url }];
+  }
+}
+
+function matchesItem(match: ShareRuleMatch, item: ShareItem): boolean {
+  const mimeTypes = splitList(match.mimeTypes);
+  if (mimeTypes.length > 0 && !matchesMimeType(item.mimeType, mimeTypes)) {
+    return false;
+  }
+
+  const extensions = splitList(match.extensions).map(extension => extension.replace(/^\./, ''));
+  if (extensions.length > 0) {
+    const extension = item.name ? splitExtension(item.name).extension.slice(1).toLowerCase() : '';
+    if (!extensions.includes(extension)) {
+      return false;
+    }
+  }
+
+  // An unknown size only fails a rule that depends on it
+  if ((match.minSize || match.maxSize) && item.size === undefined) {
+    return false;
+  }
+  if (match.minSize && item.size! < match.minSize) {
+    return false;
+  }
+  if (match.maxSize && item.size! > match.maxSize) {
+    return false;
+  }
+
+  const sources = splitList(match.sources);
+  if (sources.length > 0) {
+    const host = item.link ? linkHost(item.link) : null;
+    if (!host || !sources.some(source => host === source || host.endsWith(`.${source}`))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/** Several files match a rule only when every one of them does. */
+export function matchesShareRule(rule: ShareRule, content: SharedContent): boolean {
+  const items = shareItems(content);
+  return rule.enabled && items.length > 0 && items.every(item => matchesItem(rule.match, item));
+}
+
+export const findShareRule = (rules: ShareRule[], content: SharedContent): ShareRule | null =>
+  rules.find(rule => matchesShareRule(rule, content)) ?? null;
+
+/** "image/* · over 1 MB → Upload" */
+export function describeShareRule(rule: ShareRule, formatSize: (bytes: number) => string): string {
+  const { mimeTypes, extensions, minSize, maxSize, sources } = rule.match;
+  const conditions = [
+    mimeTypes.trim(),
+    extensions.trim() && `.${splitList(extensions).map(extension => extension.replace(/^\./, '')).join(', .')}`,
+    minSize ? `over ${formatSize(minSize)}` : '',
+    maxSize ? `up to ${formatSize(maxSize)}` : '',
+    sources.trim() && `from ${sources.trim()}`,
+  ].filter(Boolean);
+  const action = SHARE_RULE_ACTIONS.find(candidate => candidate.value === rule.action)?.label ?? rule.action;
+  return `${conditions.length > 0 ? conditions.join(' · ') : 'Anything'} → ${action}`;
+}
@@ -1,11 +1,91 @@
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
+import type { ShareIntent } from 'expo-share-intent';
 
-import { uploadFile } from './api';
+import type { EncryptionOptions } from './encryption';
+import type { ImageProcessingSettings } from './imageProcessing';
 
 export interface ShareOptions {
   expiry?: string;
   oneshot?: boolean;
+  filename?: string;
+  encryption?: EncryptionOptions;
+  imageProcessing?: ImageProcessingSettings;
+}
+
+export type CaptureMode = 'photo' | 'video';
+
+export interface PickedFile {
+  uri: string;
+  /** The name the user knows the file by, unlike the picker's cache file name. */
+  name: string;
+  size?: number;
+  mimeType?: string;
+  /** Pixel dimensions, known for images from the media library. */
+  width?: number;
+  height?: number;
+}
+
+/** What another app shared with us, in the shape the upload flows take. */
+export type SharedContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'url'; url: string }
+  | { kind: 'files'; files: PickedFile[] };
+
+/** A shared link can be shortened, fetched by the server, or kept as a paste. */
+export type SharedUrlMode = 'shorten' | 'remote' | 'text';
+
+export const SHARED_URL_MODES: { value: SharedUrlMode; label: string }[] = [
+  { value: 'shorten', label: 'Shorten' },
+  { value: 'remote', label: 'Upload from URL' },
+  { value: 'text', label: 'Paste as text' },
+];
+
+/** Null when the intent carries nothing we can upload. */
+export function sharedContentFromIntent(intent: ShareIntent): SharedContent | null {
+  if (intent.files && intent.files.length > 0) {
+    return {
+      kind: 'files',
+      files: intent.files.map(({ path, fileName, mimeType, size, width, height }) => ({
+        uri: path,
+        name: fileName || path.split('/').pop() || 'file',
+        size: size ?? undefined,
+        mimeType: mimeType || undefined,
+        width: width ?? undefined,
+        height: height ?? undefined,
+      })),
+    };
+  }
+  if (intent.type === 'text' && intent.text) {
+    return { kind: 'text', text: intent.text };
+  }
+  if (intent.webUrl) {
+    return { kind: 'url', url: intent.webUrl };
+  }
+  return null;
+}
+
+/**
+ * Handles a share intent unless `handled` already holds it, then resets it
+ * whether or not that worked, so a failed share never lingers. Resolves to
+ * whether `handle` ran.
+ */
+export async function handleShareIntentOnce<T>(
+  intent: T,
+  handled: { current: T | null },
+  handle: () => Promise<void>,
+  reset: () => void,
+): Promise<boolean> {
+  if (handled.current === intent) {
+    return false;
+  }
+  handled.current = intent;
+  try {
+    await handle();
+  } finally {
+    reset();
+  }
+  return true;
 }
 
 export async function requestMediaLibraryPermission() {
@@ -13,67 +93,76 @@ export async function requestMediaLibraryPermission() {
   return status === 'granted';
 }
 
-export async function pickAndUploadFile(
-  serverUrl: string,
-  authToken: string,
-  options: ShareOptions = {}
-): Promise<string | null> {
-  try {
-    const result = await DocumentPicker.getDocumentAsync({
-      copyToCacheDirectory: true,
-    });
-
-    if (result.canceled) {
-      // User cancelled the picker
-      return null;
-    }
-
-    if (result.assets?.[0]) {
-      const url = await uploadFile(result.assets[0].uri, serverUrl, authToken, options);
-      return url;
-    }
-
-    // No file selected
-    return null;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    throw error;
+/** Resolves to an empty list when the user cancels. */
+export async function pickDocuments(multiple = true): Promise<PickedFile[]> {
+  const result = await DocumentPicker.getDocumentAsync({
+    copyToCacheDirectory: true,
+    multiple,
+  });
+
+  if (result.canceled) {
+    // User cancelled the picker
+    return [];
   }
+
+  return (result.assets ?? []).map(asset => ({ uri: asset.uri, name: asset.name, size: asset.size, mimeType: asset.mimeType }));
 }
 
-export async function pickAndUploadImage(
-  serverUrl: string,
-  authToken: string,
-  options: ShareOptions = {}
-): Promise<string | null> {
-  try {
-    // Request permission first
-    const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
-    if (!permissionResult.granted) {
-      throw new Error('Permission to access media library is required');
-    }
-
-    const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.All,
-      quality: 1,
-      allowsEditing: false,
-    });
-
-    if (result.canceled) {
-      // User cancelled the picker
-      return null;
-    }
-
-    if (result.assets?.[0]) {
-      const url = await uploadFile(result.assets[0].uri, serverUrl, authToken, options);
-      return url;
-    }
-
-    // No image selected
-    return null;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    throw error;
+/** Resolves to an empty list when the user cancels. */
+export async function pickImages(multiple = true): Promise<PickedFile[]> {
+  // Request permission first
+  const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permissionResult.granted) {
+    throw new Error('Permission to access media library is required');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.All,
+    quality: 1,
+    allowsEditing: false,
+    allowsMultipleSelection: multiple,
+  });
+
+  if (result.canceled) {
+    // User cancelled the picker
+    return [];
   }
+
+  return (result.assets ?? []).map(asset => ({
+    uri: asset.uri,
+    name: asset.fileName || asset.uri.split('/').pop() || 'image',
+    size: asset.fileSize,
+    mimeType: asset.mimeType,
+    width: asset.width,
+    height: asset.height,
+  }));
 }
 
+/** Opens the camera for one photo or video; resolves to null when the user backs out. */
+export async function captureMedia(mode: CaptureMode): Promise<PickedFile | null> {
+  const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permissionResult.granted) {
+    throw new Error('Permission to use the camera is required');
+  }
+
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: mode === 'photo' ? ImagePicker.MediaTypeOptions.Images : ImagePicker.MediaTypeOptions.Videos,
+    quality: 1,
+    allowsEditing: false,
+  });
+
+  const asset = result.canceled ? undefined : result.assets?.[0];
+  return asset ? capturedFile(asset, mode) : null;
+}
+
+/** A camera capture in the shape the upload flows take, named after the camera's own file. */
+export function capturedFile(asset: ImagePicker.ImagePickerAsset, mode: CaptureMode): PickedFile {
+  return {
+    uri: asset.uri,
+    name: asset.fileName || asset.uri.split('/').pop() || (mode === 'photo' ? 'photo.jpg' : 'video.mp4'),
+    size: asset.fileSize,
+    mimeType: asset.mimeType,
+    width: asset.width,
+    height: asset.height,
+  };
+}
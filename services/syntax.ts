@@ -0,0 +1,169 @@
+/**
+ * Minimal line-based syntax highlighter for the paste viewer. It only knows
+ * comments, strings, numbers and keywords, which is enough to make pastes
+ * readable without shipping a full grammar engine.
+ */
+
+export type TokenType = 'plain' | 'keyword' | 'literal' | 'string' | 'comment' | 'number';
+
+export interface Token {
+  text: string;
+  type: TokenType;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  lineComments?: string[];
+  blockComment?: [string, string];
+  /** Quote characters that delimit strings. */
+  quotes?: string[];
+}
+
+const C_LIKE_COMMENTS = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const LITERALS = new Set(['true', 'false', 'null', 'undefined', 'None', 'True', 'False', 'nil', 'NaN']);
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    ...C_LIKE_COMMENTS,
+    quotes: ['"', "'", '`'],
+    keywords: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'],
+  },
+  json: { keywords: [] },
+  python: {
+    lineComments: ['#'],
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'],
+  },
+  shell: {
+    lineComments: ['#'],
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'read', 'return', 'then', 'until', 'while'],
+  },
+  rust: {
+    ...C_LIKE_COMMENTS,
+    keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'],
+  },
+  go: {
+    ...C_LIKE_COMMENTS,
+    quotes: ['"', "'", '`'],
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'],
+  },
+  c: {
+    ...C_LIKE_COMMENTS,
+    keywords: ['abstract', 'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'extern', 'final', 'float', 'for', 'fun', 'if', 'implements', 'import', 'int', 'interface', 'long', 'namespace', 'new', 'override', 'package', 'private', 'protected', 'public', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'try', 'typedef', 'union', 'unsigned', 'using', 'val', 'var', 'void', 'volatile', 'when', 'while'],
+  },
+  ruby: {
+    lineComments: ['#'],
+    keywords: ['begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'for', 'if', 'in', 'module', 'next', 'rescue', 'return', 'self', 'then', 'unless', 'until', 'when', 'while', 'yield'],
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    keywords: ['and', 'as', 'by', 'create', 'delete', 'from', 'group', 'having', 'insert', 'into', 'join', 'left', 'limit', 'not', 'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where', 'AND', 'AS', 'BY', 'CREATE', 'DELETE', 'FROM', 'GROUP', 'HAVING', 'INSERT', 'INTO', 'JOIN', 'LEFT', 'LIMIT', 'NOT', 'ON', 'OR', 'ORDER', 'SELECT', 'SET', 'TABLE', 'UPDATE', 'VALUES', 'WHERE'],
+  },
+  config: { lineComments: ['#', ';'], keywords: [] },
+  markup: { blockComment: ['<!--', '-->'], keywords: [] },
+  css: { blockComment: ['/*', '*/'], keywords: ['important', 'media', 'import'] },
+};
+
+const EXTENSION_LANGUAGES: Record<string, keyof typeof LANGUAGES> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript',
+  json: 'json',
+  py: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', fish: 'shell',
+  rs: 'rust',
+  go: 'go',
+  c: 'c', h: 'c', cpp: 'c', cc: 'c', hpp: 'c', java: 'c', kt: 'c', kts: 'c', cs: 'c', swift: 'c', dart: 'c', php: 'c',
+  rb: 'ruby',
+  sql: 'sql',
+  yml: 'config', yaml: 'config', toml: 'config', ini: 'config', conf: 'config', cfg: 'config', env: 'config', nix: 'config',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', md: 'markup',
+  css: 'css', scss: 'css',
+};
+
+/** The highlighting language for a file name, or null to render plain text. */
+export function detectLanguage(fileName: string): string | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return (extension && EXTENSION_LANGUAGES[extension]) || null;
+}
+
+const isIdentifierStart = (char: string) => /[A-Za-z_$]/.test(char);
+const isIdentifierChar = (char: string) => /[\w$]/.test(char);
+
+/** Splits code into lines of tokens. Block comments may span lines. */
+export function highlightLines(code: string, language: string | null): Token[][] {
+  const lines = code.split(/\r?\n/);
+  const spec = language ? LANGUAGES[language] : undefined;
+  if (!spec) {
+    return lines.map((line) => [{ text: line, type: 'plain' }]);
+  }
+
+  const keywords = new Set(spec.keywords);
+  const quotes = spec.quotes ?? ['"', "'"];
+  let inBlockComment = false;
+
+  return lines.map((line) => {
+    const tokens: Token[] = [];
+    const push = (text: string, type: TokenType) => {
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === type) {
+        last.text += text;
+      } else if (text) {
+        tokens.push({ text, type });
+      }
+    };
+
+    let i = 0;
+    while (i < line.length) {
+      if (inBlockComment && spec.blockComment) {
+        const end = line.indexOf(spec.blockComment[1], i);
+        const stop = end === -1 ? line.length : end + spec.blockComment[1].length;
+        push(line.slice(i, stop), 'comment');
+        inBlockComment = end === -1;
+        i = stop;
+        continue;
+      }
+
+      const rest = line.slice(i);
+      if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+        inBlockComment = true;
+        push(spec.blockComment[0], 'comment');
+        i += spec.blockComment[0].length;
+        continue;
+      }
+      if (spec.lineComments?.some((marker) => rest.startsWith(marker))) {
+        push(rest, 'comment');
+        break;
+      }
+
+      const char = line[i];
+      if (quotes.includes(char)) {
+        let end = i + 1;
+        while (end < line.length && line[end] !== char) {
+          end += line[end] === '\\' ? 2 : 1;
+        }
+        push(line.slice(i, end + 1), 'string');
+        i = end + 1;
+        continue;
+      }
+      if (/\d/.test(char) && !isIdentifierChar(line[i - 1] ?? '')) {
+        const match = rest.match(/^\d[\w.]*/)!;
+        push(match[0], 'number');
+        i += match[0].length;
+        continue;
+      }
+      if (isIdentifierStart(char)) {
+        let end = i + 1;
+        while (end < line.length && isIdentifierChar(line[end])) end++;
+        const word = line.slice(i, end);
+        push(word, keywords.has(word) ? 'keyword' : LITERALS.has(word) ? 'literal' : 'plain');
+        i = end;
+        continue;
+      }
+
+      push(char, 'plain');
+      i++;
+    }
+
+    return tokens;
+  });
+}
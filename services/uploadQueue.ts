@@ -0,0 +1,219 @@
+/**
+ * Persisted queue of uploads that could not reach the server.
+ * Files are copied into app storage on enqueue because picker caches and
+ * share-intent URIs do not outlive the app process. Encryption passphrases
+ * go to SecureStore, like profile tokens, and never into the queue's JSON.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+
+import type { ServerProfile } from '@/contexts/SettingsContext';
+import { ApiError, CancelledError, FileTooLargeError, type TransferOptions, type UploadKind, type UploadOptions } from './api';
+import { createClient } from './client';
+
+export type QueuedUploadKind = UploadKind;
+
+export type QueuedUploadStatus = 'pending' | 'uploading' | 'failed';
+
+export interface QueuedUpload {
+  id: string;
+  kind: QueuedUploadKind;
+  /** Text content, URL, or the URI of the copy kept in app storage. */
+  payload: string;
+  displayName: string;
+  profileId: string;
+  options: UploadOptions;
+  status: QueuedUploadStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+const QUEUE_KEY = 'uploadQueue';
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}upload-queue/`;
+
+const passphraseKey = (id: string) => `queuedPassphrase_${id}`;
+
+// What AsyncStorage holds: encrypted items only note whether they have a passphrase
+interface StoredQueuedUpload extends Omit<QueuedUpload, 'options'> {
+  options: Omit<UploadOptions, 'encryption'> & {
+    encryption?: { hasPassphrase?: boolean };
+  };
+}
+
+function toStoredItem(item: QueuedUpload): StoredQueuedUpload {
+  const { encryption, ...options } = item.options;
+  return {
+    ...item,
+    options: encryption ? { ...options, encryption: { hasPassphrase: !!encryption.passphrase } } : options,
+  };
+}
+
+async function fromStoredItem(item: StoredQueuedUpload): Promise<QueuedUpload> {
+  const { encryption, ...options } = item.options;
+  if (!encryption) {
+    return { ...item, options };
+  }
+  if (!encryption.hasPassphrase) {
+    return { ...item, options: { ...options, encryption: {} } };
+  }
+
+  const passphrase = await SecureStore.getItemAsync(passphraseKey(item.id));
+  if (passphrase) {
+    return { ...item, options: { ...options, encryption: { passphrase } } };
+  }
+  // A retry then still encrypts, with a key in the link instead
+  return {
+    ...item,
+    options: { ...options, encryption: {} },
+    status: 'failed',
+    lastError: 'The passphrase for this upload is no longer available',
+  };
+}
+
+/** Keeps the item's passphrase in SecureStore, or removes one it no longer has. */
+export async function savePassphrase(id: string, options: UploadOptions): Promise<void> {
+  const passphrase = options.encryption?.passphrase;
+  if (passphrase) {
+    await SecureStore.setItemAsync(passphraseKey(id), passphrase);
+  } else {
+    await SecureStore.deleteItemAsync(passphraseKey(id));
+  }
+}
+
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// With the backoff above this keeps trying for about an hour
+export const MAX_UPLOAD_ATTEMPTS = 8;
+// Failed items hold a copy of their file, so they don't wait for a retry forever
+export const FAILED_UPLOAD_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Network failures, timeouts, rate limiting and server errors are worth
+ * retrying. Anything else (bad token, payload too large) will fail the same
+ * way next time, as will a file too large to prepare, and a cancelled upload
+ * was stopped on purpose.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CancelledError || error instanceof FileTooLargeError) {
+    return false;
+  }
+  if (!(error instanceof ApiError)) {
+    return true;
+  }
+  const { statusCode } = error;
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/** Whether an item that failed its `attempts`-th try stays due, rather than failed. */
+export const shouldRetry = (error: unknown, attempts: number) =>
+  isRetryableError(error) && attempts < MAX_UPLOAD_ATTEMPTS;
+
+export async function loadQueue(): Promise<QueuedUpload[]> {
+  const stored = await AsyncStorage.getItem(QUEUE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  const queue = await Promise.all((JSON.parse(stored) as StoredQueuedUpload[]).map(fromStoredItem));
+  const expiresBefore = Date.now() - FAILED_UPLOAD_LIFETIME_MS;
+  const isExpired = (item: QueuedUpload) => item.status === 'failed' && item.createdAt < expiresBefore;
+  // An upload interrupted by the app being killed is simply due again
+  const kept = queue
+    .filter(item => !isExpired(item))
+    .map(item => (item.status === 'uploading' ? { ...item, status: 'pending' as const } : item));
+
+  if (kept.length < queue.length) {
+    await Promise.all(queue.filter(isExpired).map(item =>
+      discardQueuedUpload(item).catch(error => console.error('Failed to clean up queued file:', error))
+    ));
+    await saveQueue(kept);
+  }
+  return kept;
+}
+
+export async function saveQueue(queue: QueuedUpload[]): Promise<void> {
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue.map(toStoredItem)));
+}
+
+export const createQueueId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Takes the id up front when the upload was already attempted under it, so
+ * its error notification can point at the queued copy.
+ */
+export async function createQueuedUpload(
+  kind: QueuedUploadKind,
+  payload: string,
+  profileId: string,
+  options: UploadOptions,
+  lastError?: string,
+  id = createQueueId(),
+): Promise<QueuedUpload> {
+  const now = Date.now();
+  let storedPayload = payload;
+  let displayName = payload.length > 40 ? `${payload.substring(0, 40)}...` : payload;
+
+  if (kind === 'file') {
+    const fileName = payload.split('/').pop() || 'file';
+    // One directory per item keeps the original file name for the eventual upload
+    await FileSystem.makeDirectoryAsync(`${QUEUE_DIRECTORY}${id}`, { intermediates: true });
+    storedPayload = `${QUEUE_DIRECTORY}${id}/${fileName}`;
+    await FileSystem.copyAsync({ from: payload, to: storedPayload });
+    displayName = decodeURI(fileName);
+  }
+  if (options.encryption?.passphrase) {
+    await savePassphrase(id, options);
+  }
+
+  return {
+    id,
+    kind,
+    payload: storedPayload,
+    displayName,
+    profileId,
+    options,
+    status: 'pending',
+    attempts: lastError ? 1 : 0,
+    nextAttemptAt: lastError ? now + getRetryDelay(1) : now,
+    createdAt: now,
+    lastError,
+  };
+}
+
+/** Deletes the app-storage copy of a queued file and the item's passphrase, if any. */
+export async function discardQueuedUpload(item: QueuedUpload): Promise<void> {
+  if (item.kind === 'file') {
+    await FileSystem.deleteAsync(`${QUEUE_DIRECTORY}${item.id}`, { idempotent: true });
+  }
+  if (item.options.encryption?.passphrase) {
+    await SecureStore.deleteItemAsync(passphraseKey(item.id));
+  }
+}
+
+export async function performUpload(
+  kind: QueuedUploadKind,
+  payload: string,
+  profile: ServerProfile,
+  options: UploadOptions,
+  transfer: TransferOptions = {},
+): Promise<string> {
+  const client = createClient(profile);
+  switch (kind) {
+    case 'text':
+      return client.uploadText(payload, options, transfer);
+    case 'file':
+      return client.uploadFile(payload, options, transfer);
+    case 'url':
+      return client.shortenUrl(payload, options, transfer);
+    case 'remote':
+      return client.uploadFromRemoteUrl(payload, options, transfer);
+  }
+}